@@ -1,10 +1,20 @@
 import express from 'express';
+import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Built by `npm run build:offline`: the Devvit server's routes on in-memory Redis
+const offlineApiPath = path.join(__dirname, 'dist/offline/index.js');
+if (!fs.existsSync(offlineApiPath)) {
+    console.error('❌ The offline API has not been built yet.');
+    console.error('   Run `npm run local` to build the game and start the server in one go.');
+    process.exit(1);
+}
+const { createLocalApi } = await import(pathToFileURL(offlineApiPath).href);
+
 const app = express();
 
 // Set port (use environment variable or default to 3000)
@@ -17,10 +27,15 @@ app.use(express.static(path.join(__dirname, 'dist/client')));
 app.use((req, res, next) => {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Local-User, X-Local-Post-Id');
     next();
 });
 
+// Same /api/* and /internal/* routes as the Devvit server. Send an
+// X-Local-User header to act as another user ("anonymous" for logged out)
+// and X-Local-Post-Id to play on another post.
+app.use(createLocalApi());
+
 // Route for the main game
 app.get('/', (req, res) => {
     res.sendFile(path.join(__dirname, 'dist/client/index.html'));
@@ -47,6 +62,7 @@ app.listen(PORT, () => {
     console.log(`🌐 Server running at: http://localhost:${PORT}`);
     console.log(`🎮 Game URL: http://localhost:${PORT}/game`);
     console.log(`📊 Health Check: http://localhost:${PORT}/health`);
+    console.log(`🏆 Leaderboard: http://localhost:${PORT}/api/leaderboard`);
     console.log('');
     console.log('🚀 Ready to play! Open the URL in your browser.');
 });
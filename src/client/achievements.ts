@@ -0,0 +1,90 @@
+import {
+  ACHIEVEMENTS,
+  addRunToStats,
+  getAchievement,
+  goalProgress,
+  reachedAchievements,
+} from '../shared/achievements';
+import { RunSummary } from '../shared/simulation/run-simulation';
+import { Achievement } from '../shared/types/achievement';
+import { PlayerStats, UnlockedAchievement } from '../shared/types/api';
+
+export interface AchievementStatus {
+  achievement: Achievement;
+  unlockedAt?: number;
+  /** Progress toward lifetime goals; undefined for goals that must be met in a single run. */
+  progress?: number;
+}
+
+/**
+ * Spots achievements as soon as a run reaches them so they can be announced
+ * mid-run as pending. The server decides what is actually unlocked when the run
+ * is submitted; `confirm` merges its answer back in.
+ */
+export class AchievementTracker {
+  private unlocked = new Map<string, number>();
+  /** Lifetime stats before the current run. Unknown until loaded for a logged-in player. */
+  private lifetime?: PlayerStats;
+  /** Achievements already announced as pending during the current run. */
+  private announced = new Set<string>();
+
+  load(unlocked: UnlockedAchievement[], lifetime: PlayerStats): void {
+    this.unlocked = new Map(unlocked.map(({ id, unlockedAt }) => [id, unlockedAt]));
+    this.lifetime = lifetime;
+  }
+
+  startRun(): void {
+    this.announced.clear();
+  }
+
+  /**
+   * Achievements the run in progress has just reached that were not unlocked
+   * before. They stay pending until the server confirms the run.
+   */
+  check(run: RunSummary): Achievement[] {
+    // Unlocks are only kept for logged-in players, so stay quiet for everyone else
+    if (!this.lifetime) return [];
+
+    // A run only counts toward runsPlayed once it is over, so those goals wait for `confirm`
+    const lifetime = { ...addRunToStats(this.lifetime, run), runsPlayed: this.lifetime.runsPlayed };
+    const fresh = reachedAchievements(run, lifetime).filter(
+      ({ id }) => !this.unlocked.has(id) && !this.announced.has(id)
+    );
+    fresh.forEach(({ id }) => this.announced.add(id));
+    return fresh;
+  }
+
+  /**
+   * Records a submitted run and the unlocks the server confirmed for it. Returns
+   * the confirmed achievements, pending or not, now that they are kept.
+   */
+  confirm(run: RunSummary, unlocks: UnlockedAchievement[]): Achievement[] {
+    if (this.lifetime) {
+      this.lifetime = addRunToStats(this.lifetime, run);
+    }
+
+    const confirmed: Achievement[] = [];
+    for (const { id, unlockedAt } of unlocks) {
+      this.unlocked.set(id, unlockedAt);
+      const achievement = getAchievement(id);
+      if (achievement) {
+        confirmed.push(achievement);
+      }
+    }
+    return confirmed;
+  }
+
+  get statuses(): AchievementStatus[] {
+    return ACHIEVEMENTS.map((achievement) => ({
+      achievement,
+      unlockedAt: this.unlocked.get(achievement.id),
+      progress:
+        achievement.goal.scope === 'lifetime' && this.lifetime
+          ? Math.min(
+              goalProgress(achievement.goal, undefined, this.lifetime),
+              achievement.goal.target
+            )
+          : undefined,
+    }));
+  }
+}
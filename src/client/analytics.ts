@@ -0,0 +1,135 @@
+import { api, ApiError } from './api';
+import { TELEMETRY_SEGMENT_SECONDS } from '../shared/telemetry';
+import { RunAnalytics } from '../shared/types/api';
+
+// Moderator-only page that charts the anonymous run telemetry. The server
+// decides who is a moderator; everyone else just sees its answer.
+
+const LANE_NAMES = ['Left', 'Center', 'Right'];
+
+const summaryElement = document.getElementById('summary') as HTMLElement;
+const messageElement = document.getElementById('message') as HTMLElement;
+const chartsElement = document.getElementById('charts') as HTMLElement;
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60
+    ? `${Math.floor(seconds / 60)}m${seconds % 60 ? ` ${seconds % 60}s` : ''}`
+    : `${seconds}s`;
+
+const segmentLabel = (segment: number) => formatSeconds(segment * TELEMETRY_SEGMENT_SECONDS);
+
+const element = (tag: string, className?: string, text?: string): HTMLElement => {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+/** Keeps `values` up to the last one with data, dropping the empty tail. */
+const trimEmptyTail = <T>(values: T[], hasData: (value: T) => boolean): T[] => {
+  let end = values.length;
+  while (end > 0 && !hasData(values[end - 1]!)) end--;
+  return values.slice(0, end);
+};
+
+/** A titled card of horizontal bars, scaled to the largest value. */
+const barChart = (title: string, rows: [label: string, value: number][]): HTMLElement => {
+  const chart = element('section', 'chart');
+  chart.appendChild(element('h2', undefined, title));
+
+  const max = Math.max(1, ...rows.map(([, value]) => value));
+  for (const [label, value] of rows) {
+    const row = element('div', 'bar-row');
+    const track = element('div', 'bar-track');
+    const bar = element('div', 'bar');
+    bar.style.width = `${(value / max) * 100}%`;
+    track.appendChild(bar);
+    row.append(
+      element('span', 'bar-label', label),
+      track,
+      element('span', 'bar-value', value.toLocaleString('en-US'))
+    );
+    chart.appendChild(row);
+  }
+  return chart;
+};
+
+/** Lanes across, run segments down; brighter cells are where players spend more time. */
+const laneHeatmap = (heatmap: number[][]): HTMLElement => {
+  const chart = element('section', 'chart');
+  chart.appendChild(element('h2', undefined, 'Lane occupancy over the run'));
+
+  // Trailing segments no run has reached yet would only add empty rows
+  const rows = trimEmptyTail(heatmap, (lanes) => lanes.some(Boolean));
+  if (rows.length === 0) {
+    chart.appendChild(element('p', 'bar-label', 'No runs yet'));
+    return chart;
+  }
+
+  const grid = element('div', 'heatmap');
+  grid.style.gridTemplateColumns = `90px repeat(${LANE_NAMES.length}, 1fr)`;
+  grid.appendChild(element('span'));
+  LANE_NAMES.forEach((lane) => grid.appendChild(element('span', 'bar-label', lane)));
+
+  rows.forEach((lanes, segment) => {
+    // Each row is shaded on its own, since fewer runs reach later segments
+    const total = Math.max(1, ...lanes);
+    grid.appendChild(element('span', 'bar-label', segmentLabel(segment)));
+    for (const ticks of lanes) {
+      const cell = element('div', 'heatmap-cell');
+      cell.style.opacity = String(0.1 + 0.9 * (ticks / total));
+      cell.title = `${ticks.toLocaleString('en-US')} ticks`;
+      grid.appendChild(cell);
+    }
+  });
+  chart.appendChild(grid);
+  return chart;
+};
+
+const render = (analytics: RunAnalytics) => {
+  const averageSeconds = analytics.runs > 0 ? analytics.totalRunMs / analytics.runs / 1000 : 0;
+  summaryElement.textContent = `${analytics.runs.toLocaleString('en-US')} runs recorded, lasting ${averageSeconds.toFixed(1)}s on average.`;
+  messageElement.textContent = '';
+
+  chartsElement.replaceChildren(
+    barChart(
+      'Run length',
+      trimEmptyTail(analytics.runLengths, (runs) => runs > 0).map(
+        (runs, segment): [string, number] => [`${segmentLabel(segment)}+`, runs]
+      )
+    ),
+    barChart(
+      'Deaths by lane',
+      analytics.deathsByLane.map((deaths, lane): [string, number] => [
+        LANE_NAMES[lane] ?? `Lane ${lane}`,
+        deaths,
+      ])
+    ),
+    barChart(
+      'Deaths by obstacle speed',
+      Object.entries(analytics.deathsBySpeed)
+        .map(([speed, deaths]): [number, number] => [Number(speed), deaths])
+        .sort(([a], [b]) => a - b)
+        .map(([speed, deaths]) => [`${speed}`, deaths])
+    ),
+    barChart('Pickups collected', Object.entries(analytics.pickups)),
+    laneHeatmap(analytics.laneHeatmap),
+    barChart('Device profiles', Object.entries(analytics.devices))
+  );
+};
+
+const load = async () => {
+  try {
+    const { analytics } = await api.getAnalytics();
+    render(analytics);
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+      messageElement.textContent = error.message;
+      return;
+    }
+    console.error('Failed to load analytics:', error);
+    messageElement.textContent = 'Failed to load analytics. Try again later.';
+  }
+};
+
+void load();
@@ -0,0 +1,424 @@
+import { parseGamePostData } from '../shared/post-data';
+import { COLLECTIBLE_TYPES, CollectibleType } from '../shared/simulation/rules';
+import { RUN_ACTIONS, RunInput, RunRecord } from '../shared/simulation/run-simulation';
+import { TournamentConfig } from '../shared/types/post';
+import {
+  AchievementsResponse,
+  AnalyticsResponse,
+  ArchivedLeaderboardPeriod,
+  Challenge,
+  ChallengeResponse,
+  ChallengeResult,
+  ChallengesResponse,
+  CreateChallengeRequest,
+  ErrorResponse,
+  GameplaySettings,
+  GhostRun,
+  GhostRunResponse,
+  LeaderboardArchiveResponse,
+  LeaderboardEntry,
+  LeaderboardNeighborsResponse,
+  LeaderboardResponse,
+  LeaderboardWindow,
+  PlayerRankResponse,
+  PlayerSettings,
+  PlayerSettingsResponse,
+  PlayerStats,
+  PlayerStatsResponse,
+  PostConfigResponse,
+  RecordTelemetryRequest,
+  RecordTelemetryResponse,
+  RunAnalytics,
+  RunSessionResponse,
+  SaveScoreRequest,
+  SaveScoreResponse,
+  ScoreResponse,
+  StartRunRequest,
+  SubredditLeaderboardResponse,
+  TournamentResponse,
+  TournamentResults,
+  UnlockedAchievement,
+  UpdatePlayerSettingsRequest,
+} from '../shared/types/api';
+
+// Typed wrappers for every /api/* endpoint. All server traffic from the client
+// goes through here so responses are validated and failures look the same.
+
+const DEFAULT_TIMEOUT_MS = 8000;
+/** GETs are retried on network errors, timeouts and 5xx responses; writes never are. */
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_DELAY_MS = 400;
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network' | 'invalid-response';
+
+/** The one error type API calls reject with. `status` is set for HTTP errors. */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return (
+      this.kind === 'timeout' ||
+      this.kind === 'network' ||
+      (this.kind === 'http' && (this.status ?? 0) >= 500)
+    );
+  }
+}
+
+type Validator<T> = (value: unknown) => value is T;
+
+interface RequestOptions<T> {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  validate: Validator<T>;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// Runtime checks mirroring the interfaces in shared/types/api.ts
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptional =
+  <T>(validate: Validator<T>) =>
+  (value: unknown): value is T | undefined =>
+    value === undefined || validate(value);
+
+const isArrayOf =
+  <T>(validate: Validator<T>) =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every(validate);
+
+const isLeaderboardWindow = (value: unknown): value is LeaderboardWindow =>
+  value === 'daily' || value === 'weekly' || value === 'all-time';
+
+const isErrorResponse = (value: unknown): value is ErrorResponse =>
+  isObject(value) && value.status === 'error' && isString(value.message);
+
+const isScoreResponse = (value: unknown): value is ScoreResponse =>
+  isObject(value) && isNumber(value.highScore) && isOptional(isString)(value.userId);
+
+const isUnlockedAchievement = (value: unknown): value is UnlockedAchievement =>
+  isObject(value) && isString(value.id) && isNumber(value.unlockedAt);
+
+const isChallengeResult = (value: unknown): value is ChallengeResult =>
+  isObject(value) && isNumber(value.score) && isString(value.winner) && isNumber(value.completedAt);
+
+const isChallenge = (value: unknown): value is Challenge =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.postId) &&
+  isString(value.challenger) &&
+  isString(value.opponent) &&
+  isNumber(value.seed) &&
+  isNumber(value.targetScore) &&
+  isNumber(value.createdAt) &&
+  isOptional(isChallengeResult)(value.result);
+
+const isChallengeResponse = (value: unknown): value is ChallengeResponse =>
+  isObject(value) && isChallenge(value.challenge);
+
+const isChallengesResponse = (value: unknown): value is ChallengesResponse =>
+  isObject(value) && isString(value.postId) && isArrayOf(isChallenge)(value.incoming);
+
+const isSaveScoreResponse = (value: unknown): value is SaveScoreResponse =>
+  isObject(value) &&
+  typeof value.newHighScore === 'boolean' &&
+  isNumber(value.score) &&
+  isOptional(isNumber)(value.highScore) &&
+  isOptional(isNumber)(value.previousHighScore) &&
+  isOptional(isArrayOf(isUnlockedAchievement))(value.achievements) &&
+  isOptional(isChallenge)(value.challenge);
+
+const isLeaderboardEntry = (value: unknown): value is LeaderboardEntry =>
+  isObject(value) && isNumber(value.rank) && isString(value.username) && isNumber(value.score);
+
+const isLeaderboardResponse = (value: unknown): value is LeaderboardResponse =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isArrayOf(isLeaderboardEntry)(value.entries) &&
+  isNumber(value.totalPlayers);
+
+const isPlayerRankResponse = (value: unknown): value is PlayerRankResponse =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isString(value.username) &&
+  isOptional(isNumber)(value.rank) &&
+  isOptional(isNumber)(value.score) &&
+  isNumber(value.totalPlayers);
+
+const isLeaderboardNeighborsResponse = (value: unknown): value is LeaderboardNeighborsResponse =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isString(value.username) &&
+  isOptional(isNumber)(value.rank) &&
+  isArrayOf(isLeaderboardEntry)(value.above) &&
+  isArrayOf(isLeaderboardEntry)(value.below);
+
+const isSubredditLeaderboardResponse = (value: unknown): value is SubredditLeaderboardResponse =>
+  isObject(value) &&
+  isLeaderboardWindow(value.window) &&
+  isString(value.periodId) &&
+  isArrayOf(isLeaderboardEntry)(value.entries) &&
+  isNumber(value.totalPlayers);
+
+const isArchivedLeaderboardPeriod = (value: unknown): value is ArchivedLeaderboardPeriod =>
+  isObject(value) && isString(value.periodId) && isNumber(value.archivedAt);
+
+const isLeaderboardArchiveResponse = (value: unknown): value is LeaderboardArchiveResponse =>
+  isObject(value) &&
+  isLeaderboardWindow(value.window) &&
+  isArrayOf(isArchivedLeaderboardPeriod)(value.periods);
+
+const isTournamentConfig = (value: unknown): value is TournamentConfig =>
+  isObject(value) &&
+  isString(value.id) &&
+  isNumber(value.startsAt) &&
+  isNumber(value.endsAt) &&
+  isNumber(value.attemptsPerUser) &&
+  isOptional(isNumber)(value.roundMs);
+
+const isTournamentResults = (value: unknown): value is TournamentResults =>
+  isObject(value) &&
+  isNumber(value.closedAt) &&
+  isArrayOf(isLeaderboardEntry)(value.standings) &&
+  isNumber(value.totalPlayers);
+
+const isTournamentResponse = (value: unknown): value is TournamentResponse =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isTournamentConfig(value.tournament) &&
+  (value.status === 'upcoming' || value.status === 'open' || value.status === 'closed') &&
+  isOptional(isNumber)(value.round) &&
+  isOptional(isNumber)(value.attemptsUsed) &&
+  isArrayOf(isLeaderboardEntry)(value.entries) &&
+  isNumber(value.totalPlayers) &&
+  isOptional(isTournamentResults)(value.results);
+
+const isCollectibleType = (value: unknown): value is CollectibleType =>
+  (COLLECTIBLE_TYPES as readonly unknown[]).includes(value);
+
+const isCollectibleValues = (value: unknown): value is Record<CollectibleType, number> =>
+  isObject(value) && COLLECTIBLE_TYPES.every((type) => isNumber(value[type]));
+
+const isGameplaySettings = (value: unknown): value is GameplaySettings =>
+  isObject(value) &&
+  isNumber(value.baseSpeed) &&
+  isNumber(value.speedRamp) &&
+  isNumber(value.minSpawnInterval) &&
+  isNumber(value.lives) &&
+  isCollectibleValues(value.collectibleValues) &&
+  isArrayOf(isCollectibleType)(value.enabledCollectibles);
+
+const isRunSessionResponse = (value: unknown): value is RunSessionResponse =>
+  isObject(value) &&
+  isString(value.token) &&
+  isNumber(value.seed) &&
+  isNumber(value.startedAt) &&
+  isGameplaySettings(value.gameplay);
+
+const isPostConfigResponse = (value: unknown): value is PostConfigResponse =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isObject(value.postData) &&
+  isGameplaySettings(value.gameplay);
+
+const isPlayerStats = (value: unknown): value is PlayerStats =>
+  isObject(value) &&
+  isNumber(value.runsPlayed) &&
+  isNumber(value.totalDistance) &&
+  isNumber(value.totalTimeSurvivedMs) &&
+  isNumber(value.obstaclesHit) &&
+  isObject(value.collectibles) &&
+  Object.values(value.collectibles).every(isNumber);
+
+const isPlayerStatsResponse = (value: unknown): value is PlayerStatsResponse =>
+  isObject(value) && isString(value.userId) && isPlayerStats(value.stats);
+
+const isAchievementsResponse = (value: unknown): value is AchievementsResponse =>
+  isObject(value) && isString(value.userId) && isArrayOf(isUnlockedAchievement)(value.unlocked);
+
+const isPlayerSettings = (value: unknown): value is PlayerSettings =>
+  isObject(value) && typeof value.scoreCardComments === 'boolean';
+
+const isPlayerSettingsResponse = (value: unknown): value is PlayerSettingsResponse =>
+  isObject(value) && isString(value.userId) && isPlayerSettings(value.settings);
+
+const isRunInput = (value: unknown): value is RunInput =>
+  isObject(value) &&
+  isNumber(value.tick) &&
+  (RUN_ACTIONS as readonly unknown[]).includes(value.action);
+
+const isRunRecord = (value: unknown): value is RunRecord =>
+  isObject(value) &&
+  isNumber(value.seed) &&
+  isArrayOf(isRunInput)(value.inputs) &&
+  isNumber(value.ticks);
+
+const isGhostRun = (value: unknown): value is GhostRun =>
+  isObject(value) &&
+  isNumber(value.score) &&
+  isRunRecord(value.run) &&
+  isOptional(isGameplaySettings)(value.gameplay);
+
+const isGhostRunResponse = (value: unknown): value is GhostRunResponse =>
+  isObject(value) && isString(value.postId) && isOptional(isGhostRun)(value.ghost);
+
+const isCountRecord = (value: unknown): value is Record<string, number> =>
+  isObject(value) && Object.values(value).every(isNumber);
+
+const isRecordTelemetryResponse = (value: unknown): value is RecordTelemetryResponse =>
+  isObject(value) && value.recorded === true;
+
+const isRunAnalytics = (value: unknown): value is RunAnalytics =>
+  isObject(value) &&
+  isNumber(value.runs) &&
+  isNumber(value.totalRunMs) &&
+  isArrayOf(isNumber)(value.runLengths) &&
+  isArrayOf(isNumber)(value.deathsByLane) &&
+  isCountRecord(value.deathsBySpeed) &&
+  isCountRecord(value.pickups) &&
+  isArrayOf(isArrayOf(isNumber))(value.laneHeatmap) &&
+  isCountRecord(value.devices);
+
+const isAnalyticsResponse = (value: unknown): value is AnalyticsResponse =>
+  isObject(value) && isRunAnalytics(value.analytics);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withQuery = (path: string, query: Record<string, string | number | undefined>) => {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(name, String(value));
+  }
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+const requestOnce = async <T>(
+  path: string,
+  { method = 'GET', body, validate, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError('timeout', `${method} ${path} timed out after ${timeoutMs}ms`);
+    }
+    throw new ApiError('network', `${method} ${path} failed: ${error}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const payload: unknown = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    const message = isErrorResponse(payload)
+      ? payload.message
+      : `${method} ${path} failed with HTTP ${response.status}`;
+    throw new ApiError('http', message, response.status);
+  }
+
+  if (!validate(payload)) {
+    throw new ApiError('invalid-response', `${method} ${path} returned an unexpected response`);
+  }
+  return payload;
+};
+
+const request = async <T>(path: string, options: RequestOptions<T>): Promise<T> => {
+  const retries = options.retries ?? (options.method === 'POST' ? 0 : DEFAULT_GET_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(path, options);
+    } catch (error) {
+      if (!(error instanceof ApiError) || !error.retryable || attempt >= retries) {
+        throw error;
+      }
+      await delay(RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+};
+
+export const api = {
+  getPostConfig: async (): Promise<PostConfigResponse> => {
+    const config = await request('/api/post-config', { validate: isPostConfigResponse });
+    return { ...config, postData: parseGamePostData(config.postData) };
+  },
+
+  getHighScore: () => request('/api/score', { validate: isScoreResponse }),
+
+  startRun: (body: StartRunRequest = {}) =>
+    request('/api/run/start', { method: 'POST', body, validate: isRunSessionResponse }),
+
+  saveScore: (body: SaveScoreRequest) =>
+    request('/api/score', { method: 'POST', body, validate: isSaveScoreResponse }),
+
+  getStats: () => request('/api/stats', { validate: isPlayerStatsResponse }),
+
+  getAchievements: () => request('/api/achievements', { validate: isAchievementsResponse }),
+
+  getSettings: () => request('/api/settings', { validate: isPlayerSettingsResponse }),
+
+  updateSettings: (body: UpdatePlayerSettingsRequest) =>
+    request('/api/settings', { method: 'POST', body, validate: isPlayerSettingsResponse }),
+
+  getGhostRun: () => request('/api/ghost', { validate: isGhostRunResponse }),
+
+  getTournament: () => request('/api/tournament', { validate: isTournamentResponse }),
+
+  getChallenges: () => request('/api/challenges', { validate: isChallengesResponse }),
+
+  createChallenge: (body: CreateChallengeRequest) =>
+    request('/api/challenges', { method: 'POST', body, validate: isChallengeResponse }),
+
+  recordTelemetry: (body: RecordTelemetryRequest) =>
+    request('/api/telemetry', { method: 'POST', body, validate: isRecordTelemetryResponse }),
+
+  getAnalytics: () => request('/api/analytics', { validate: isAnalyticsResponse }),
+
+  getLeaderboard: (limit?: number) =>
+    request(withQuery('/api/leaderboard', { limit }), { validate: isLeaderboardResponse }),
+
+  getMyRank: () => request('/api/leaderboard/me', { validate: isPlayerRankResponse }),
+
+  getNeighbors: (radius?: number) =>
+    request(withQuery('/api/leaderboard/around-me', { radius }), {
+      validate: isLeaderboardNeighborsResponse,
+    }),
+
+  getSubredditLeaderboard: (
+    window: LeaderboardWindow,
+    options: { period?: string; limit?: number } = {}
+  ) =>
+    request(withQuery(`/api/leaderboard/subreddit/${window}`, options), {
+      validate: isSubredditLeaderboardResponse,
+    }),
+
+  getLeaderboardArchive: (window: LeaderboardWindow, limit?: number) =>
+    request(withQuery(`/api/leaderboard/subreddit/${window}/archive`, { limit }), {
+      validate: isLeaderboardArchiveResponse,
+    }),
+};
@@ -54,6 +54,12 @@ export class HealthBar {
         document.body.appendChild(this.element);
     }
 
+    setMaxHealth(maxHealth) {
+        this.maxHealth = maxHealth;
+        this.currentHealth = Math.min(this.currentHealth, maxHealth);
+        this.render();
+    }
+
     setHealth(health) {
         this.currentHealth = Math.max(0, Math.min(health, this.maxHealth));
         this.render();
@@ -1,15 +1,25 @@
 import * as THREE from 'three';
 import { HealthBar } from './health-bar';
-
-// Game State
-const gameState = {
-    isPlaying: false,
-    isPaused: false,
-    score: 0,
-    speed: 10,
-    lives: 3,
-    gameOver: false
-};
+import { GameAssetLoader } from './three/assets/GameAssetLoader';
+import { EnhancedRunnerGame } from './three/game/enhanced-runner-game';
+import { GameUI } from './three/ui/game-ui';
+import { api, ApiError } from './api';
+import { AchievementTracker } from './achievements';
+import { RunTelemetryRecorder } from './telemetry';
+import { ProfileManager } from './three/assets/ProfileManager';
+import { DEFAULT_GAMEPLAY_SETTINGS, DEFAULT_POST_DATA, runRulesForPost } from '../shared/post-data';
+import {
+    Challenge,
+    GhostRun,
+    RunSessionResponse,
+    TournamentResponse,
+    UpdatePlayerSettingsRequest,
+} from '../shared/types/api';
+
+// Post config; daily challenge posts pin every run to the same seed
+let postData = DEFAULT_POST_DATA;
+// Install-wide gameplay tuning from the app settings; the defaults until the server answers
+let gameplay = DEFAULT_GAMEPLAY_SETTINGS;
 
 // Device Detection
 const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -51,353 +61,209 @@ directionalLight.position.set(5, 10, 5);
 scene.add(directionalLight);
 
 // Game Objects
-let player: Player;
-let obstacles: Obstacle[] = [];
-let collectibles: Collectible[] = [];
+let game: EnhancedRunnerGame;
 let healthBar: HealthBar;
-let spawnTimer = 0;
-const spawnInterval = 2.5;
-
-// Player Class
-class Player {
-    mesh: THREE.Mesh;
-    velocity: THREE.Vector3;
-    lanes: number[];
-    currentLane: number;
-    targetX: number;
-    isGrounded: boolean;
-
-    constructor() {
-        const geometry = new THREE.CylinderGeometry(0.3, 0.3, 1.2, 8);
-        const material = new THREE.MeshStandardMaterial({
-            color: 0xff6b35,
-            emissive: 0x331100
-        });
-        
-        this.mesh = new THREE.Mesh(geometry, material);
-        this.mesh.position.set(0, 0.6, 0);
-        scene.add(this.mesh);
-
-        this.velocity = new THREE.Vector3(0, 0, 0);
-        this.lanes = [-2, 0, 2];
-        this.currentLane = 1;
-        this.targetX = 0;
-        this.isGrounded = true;
-    }
+let lives = 0;
 
-    jump() {
-        if (this.isGrounded) {
-            this.velocity.y = 15;
-            this.isGrounded = false;
-        }
-    }
+// Start screen, HUD and game over screen
+const ui = new GameUI();
+ui.hide(); // Hidden behind the loading screen until the game is ready
 
-    moveLeft() {
-        if (this.currentLane > 0) {
-            this.currentLane--;
-            this.targetX = this.lanes[this.currentLane];
-        }
-    }
+const achievements = new AchievementTracker();
+const telemetry = new RunTelemetryRecorder();
 
-    moveRight() {
-        if (this.currentLane < this.lanes.length - 1) {
-            this.currentLane++;
-            this.targetX = this.lanes[this.currentLane];
-        }
-    }
+// The player's best run on this post, raced against as a ghost
+let ghost: GhostRun | undefined;
 
-    update(deltaTime: number) {
-        // Lane switching
-        const dx = this.targetX - this.mesh.position.x;
-        if (Math.abs(dx) > 0.1) {
-            this.mesh.position.x += dx * 8 * deltaTime;
-        }
+// Token for the current run's server session; scores are only accepted with one
+let sessionToken: string | undefined;
 
-        // Jumping and gravity
-        if (!this.isGrounded) {
-            this.velocity.y -= 50 * deltaTime;
-            this.mesh.position.y += this.velocity.y * deltaTime;
+// Oldest open challenge sent to the player on this post; the next run plays it
+let incomingChallenge: Challenge | undefined;
 
-            if (this.mesh.position.y <= 0.6) {
-                this.mesh.position.y = 0.6;
-                this.velocity.y = 0;
-                this.isGrounded = true;
+// Schedule, attempts and standings when this post is a tournament
+let tournament: TournamentResponse | undefined;
+
+// Game Functions
+async function startRunSession(): Promise<RunSessionResponse> {
+    if (incomingChallenge) {
+        try {
+            return await api.startRun({ challengeId: incomingChallenge.id });
+        } catch (error) {
+            // Expired or already played elsewhere: play a regular run instead
+            if (!(error instanceof ApiError && (error.status === 404 || error.status === 409))) {
+                throw error;
             }
+            setIncomingChallenge(undefined);
         }
     }
+    return api.startRun();
 }
 
-// Obstacle Class
-class Obstacle {
-    mesh: THREE.Mesh;
-    velocity: number;
-
-    constructor(lane: number, z: number) {
-        const geometry = new THREE.BoxGeometry(0.8, 1.5, 0.8);
-        const material = new THREE.MeshStandardMaterial({ color: 0x8b0000 });
-        
-        this.mesh = new THREE.Mesh(geometry, material);
-        this.mesh.position.set([-2, 0, 2][lane], 0.75, z);
-        this.velocity = gameState.speed;
-        scene.add(this.mesh);
-    }
-
-    update(deltaTime: number) {
-        this.mesh.position.z += this.velocity * deltaTime;
-        this.mesh.rotation.y += 2 * deltaTime;
-    }
-
-    dispose() {
-        scene.remove(this.mesh);
-        this.mesh.geometry.dispose();
-        (this.mesh.material as THREE.Material).dispose();
-    }
-}
-
-// Collectible Class
-class Collectible {
-    mesh: THREE.Mesh;
-    velocity: number;
-
-    constructor(lane: number, z: number) {
-        const geometry = new THREE.SphereGeometry(0.3, 8, 6);
-        const material = new THREE.MeshStandardMaterial({
-            color: 0xffdd00,
-            metalness: 0.8
-        });
-        
-        this.mesh = new THREE.Mesh(geometry, material);
-        this.mesh.position.set([-2, 0, 2][lane], 1, z);
-        this.velocity = gameState.speed;
-        scene.add(this.mesh);
-    }
-
-    update(deltaTime: number) {
-        this.mesh.position.z += this.velocity * deltaTime;
-        this.mesh.rotation.y += 3 * deltaTime;
+async function startGame() {
+    // The server picks the seed; without a session the run can be played but not saved
+    let seed = postData.seed;
+    sessionToken = undefined;
+    try {
+        const session = await startRunSession();
+        seed = session.seed;
+        sessionToken = session.token;
+        // The session fixes the settings the run is verified under, so play with those
+        gameplay = session.gameplay;
+        ui.setCollectibles(runRulesForPost(postData, gameplay));
+    } catch (error) {
+        // Tournaments refuse runs outside their window or past the attempt limit
+        if (error instanceof ApiError && error.status === 403) {
+            ui.setChallengeInfo(`🏆 ${error.message}`);
+            ui.hideGameUI();
+            ui.showInstructions();
+            return;
+        }
+        if (!(error instanceof ApiError && error.status === 401)) {
+            console.error('Failed to start run session:', error);
+        }
     }
-
-    dispose() {
-        scene.remove(this.mesh);
-        this.mesh.geometry.dispose();
-        (this.mesh.material as THREE.Material).dispose();
+    if (postData.tournament) {
+        void loadTournament();
     }
-}
 
-// Create Ground
-function createGround() {
-    const groundGeometry = new THREE.PlaneGeometry(20, 100);
-    const groundMaterial = new THREE.MeshStandardMaterial({ color: 0x2a1810 });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    scene.add(ground);
-
-    // Lane markers
-    for (let i = 0; i < 4; i++) {
-        const lineGeometry = new THREE.BoxGeometry(0.1, 0.02, 100);
-        const lineMaterial = new THREE.MeshStandardMaterial({ color: 0xffaa00 });
-        const line = new THREE.Mesh(lineGeometry, lineMaterial);
-        line.position.set(-3 + i * 2, 0.01, 0);
-        scene.add(line);
-    }
-}
-
-// Game Functions
-function startGame() {
-    gameState.isPlaying = true;
-    gameState.gameOver = false;
-    gameState.score = 0;
-    gameState.lives = 3;
-    gameState.speed = 10; // Reset speed
-    spawnTimer = 0;
-
-    // Clear objects
-    obstacles.forEach(obs => obs.dispose());
-    collectibles.forEach(col => col.dispose());
-    obstacles = [];
-    collectibles = [];
-
-    // Show health bar and game stats
-    healthBar.setHealth(gameState.lives);
+    game.applyPostConfig(postData, gameplay);
+    // The ghost replays under the settings it was played with, or today's for older ghosts
+    game.setGhostRun(ghost?.run, runRulesForPost(postData, ghost?.gameplay ?? gameplay));
+    game.startGame(seed);
+    achievements.startRun();
+    telemetry.startRun();
+    lives = game.getGameState().lives;
+
+    // Show health bar
+    healthBar.setMaxHealth(lives);
+    healthBar.setHealth(lives);
     healthBar.show();
-    
-    const gameStats = document.getElementById('gameStats');
-    if (gameStats) gameStats.style.display = 'block';
-
-    // Hide all screens
-    const startScreen = document.getElementById('startScreen');
-    const gameOverScreen = document.getElementById('gameOverScreen');
-    
-    if (startScreen) startScreen.style.display = 'none';
-    if (gameOverScreen) gameOverScreen.style.display = 'none';
 
-    updateUI();
+    ui.updateGameState(game.getGameState());
 }
 
 function gameOver() {
-    gameState.gameOver = true;
-    gameState.isPlaying = false;
     healthBar.hide();
-
-    // Hide game stats
-    const gameStats = document.getElementById('gameStats');
-    if (gameStats) gameStats.style.display = 'none';
-
-    const gameOverScreen = document.getElementById('gameOverScreen');
-    const finalScore = document.getElementById('finalScore');
-    
-    console.log('GameOver called - showing screen');
-    
-    if (gameOverScreen) {
-        gameOverScreen.style.display = 'flex';
-        gameOverScreen.style.visibility = 'visible';
-        gameOverScreen.style.zIndex = '9999';
-        console.log('Game over screen should be visible now');
-    }
-    
-    if (finalScore) {
-        finalScore.textContent = `Final Score: ${gameState.score}`;
-    }
+    // Submitting the score clears the token, and telemetry is sent under the same session
+    const token = sessionToken;
+    void submitScore(game.getGameState().score);
+    void sendTelemetry(token);
 }
 
-function spawnObjects() {
-    const lanes = [0, 1, 2];
-    const availableLanes = [...lanes];
+// Telemetry is anonymous and best-effort, so failures never reach the player
+async function sendTelemetry(token: string | undefined) {
+    const run = telemetry.finish(game.getRunSummary(), ProfileManager.getInstance().getCurrentProfile());
+    if (!run || !token) return;
 
-    // Spawn obstacle
-    if (Math.random() < 0.7) {
-        const lane = availableLanes.splice(Math.floor(Math.random() * availableLanes.length), 1)[0];
-        obstacles.push(new Obstacle(lane, -50));
+    try {
+        await api.recordTelemetry({ sessionToken: token, telemetry: run });
+    } catch (error) {
+        console.error('Failed to send run telemetry:', error);
     }
-
-    // Spawn collectibles
-    availableLanes.forEach(lane => {
-        if (Math.random() < 0.6) {
-            collectibles.push(new Collectible(lane, -50));
-        }
-    });
 }
 
-function checkCollisions() {
-    const playerPos = player.mesh.position;
-
-    // Check obstacles
-    for (let i = obstacles.length - 1; i >= 0; i--) {
-        const obstacle = obstacles[i];
-        const distance = playerPos.distanceTo(obstacle.mesh.position);
+async function submitScore(score: number) {
+    if (!sessionToken) {
+        ui.setScoreResult('Score not saved: this run was started offline');
+        return;
+    }
 
-        if (distance < 1.0) {
-            gameState.lives--;
-            healthBar.takeDamage(1);
+    ui.setScoreResult('Saving score...');
+    const summary = game.getRunSummary();
+    const run = game.getRunRecord();
 
-            obstacle.dispose();
-            obstacles.splice(i, 1);
+    try {
+        // Each session accepts one score, so never send the same token twice
+        const token = sessionToken;
+        sessionToken = undefined;
+        const runGameplay = gameplay;
+        const result = await api.saveScore({ sessionToken: token, score, run, summary });
 
-            if (gameState.lives <= 0) {
-                gameOver();
-                return;
-            }
+        // The server keeps the best run on this post as the next ghost
+        if (!ghost || score > ghost.score) {
+            ghost = { score, run, gameplay: runGameplay };
+        }
+        achievements.confirm(summary, result.achievements ?? [])
+            .forEach((achievement) => ui.showAchievementToast(achievement));
+        // Challenge runs would get around a tournament's attempt limit
+        if (postData.mode !== 'tournament') {
+            ui.showChallengeForm();
         }
-    }
 
-    // Check collectibles
-    for (let i = collectibles.length - 1; i >= 0; i--) {
-        const collectible = collectibles[i];
-        const distance = playerPos.distanceTo(collectible.mesh.position);
+        if (result.challenge?.result) {
+            const { challenger, targetScore, result: { winner } } = result.challenge;
+            ui.setChallengeMessage(winner === challenger
+                ? `💥 u/${challenger}'s ${targetScore} held up`
+                : `⚔️ You beat u/${challenger}'s ${targetScore}!`);
+            void loadChallenges();
+        }
 
-        if (distance < 0.8) {
-            gameState.score += 10;
-            collectible.dispose();
-            collectibles.splice(i, 1);
+        if (result.newHighScore) {
+            ui.setScoreResult(result.previousHighScore
+                ? `🎆 New High Score! Previous best: ${result.previousHighScore}`
+                : '🎆 New High Score!');
+        } else {
+            ui.setScoreResult(`High Score: ${result.highScore ?? score}`);
         }
+    } catch (error) {
+        console.error('Failed to save score:', error);
+
+        // Rejected runs (HTTP 4xx) carry a message worth showing; anything else is generic
+        ui.setScoreResult(error instanceof ApiError && error.kind === 'http' && !error.retryable
+            ? error.message
+            : 'Score could not be saved');
     }
 }
 
-function updateUI() {
-    const scoreElement = document.getElementById('score');
-    if (scoreElement) {
-        scoreElement.textContent = `${gameState.score}`;
+async function showStats() {
+    try {
+        const { stats } = await api.getStats();
+        ui.showStats(stats);
+    } catch (error) {
+        console.error('Failed to load stats:', error);
+        ui.showStatsMessage(error instanceof ApiError && error.status === 401
+            ? 'Log in to Reddit to track your stats'
+            : 'Stats could not be loaded');
     }
 }
 
 // Controls
-function setupControls() {
-    // Keyboard controls
-    document.addEventListener('keydown', (event) => {
-        if (!gameState.isPlaying || gameState.gameOver) return;
-
-        switch (event.code) {
-            case 'Space':
-            case 'ArrowUp':
-                event.preventDefault();
-                player.jump();
-                break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                event.preventDefault();
-                player.moveLeft();
-                break;
-            case 'ArrowRight':
-            case 'KeyD':
-                event.preventDefault();
-                player.moveRight();
-                break;
-        }
-    });
-
-    // Touch controls for mobile
-    let touchStartY = 0;
-    let touchStartX = 0;
-
-    document.addEventListener('touchstart', (event) => {
-        if (!gameState.isPlaying || gameState.gameOver) return;
-        
-        event.preventDefault();
-        const touch = event.touches[0];
-        if (!touch) return;
-
-        touchStartX = touch.clientX;
-        touchStartY = touch.clientY;
-    }, { passive: false });
+// Keyboard and swipe input is handled by EnhancedRunnerGame itself
+async function showSettings() {
+    try {
+        const { settings } = await api.getSettings();
+        ui.showSettings(settings, (update) => void saveSettings(update));
+    } catch (error) {
+        console.error('Failed to load settings:', error);
+        ui.showSettingsMessage(error instanceof ApiError && error.status === 401
+            ? 'Log in to Reddit to change your settings'
+            : 'Settings could not be loaded');
+    }
+}
 
-    document.addEventListener('touchend', (event) => {
-        if (!gameState.isPlaying || gameState.gameOver) return;
-        
-        event.preventDefault();
-        
-        const touch = event.changedTouches[0];
-        if (!touch) return;
+async function sendChallenge(username: string) {
+    try {
+        const { challenge } = await api.createChallenge({ username });
+        ui.setChallengeMessage(`⚔️ Challenge sent to u/${challenge.opponent}!`);
+    } catch (error) {
+        console.error('Failed to send challenge:', error);
+        ui.setChallengeMessage(error instanceof ApiError && error.kind === 'http' && !error.retryable
+            ? error.message
+            : 'Challenge could not be sent');
+    }
+}
 
-        const touchEndX = touch.clientX;
-        const touchEndY = touch.clientY;
-        
-        const deltaX = touchEndX - touchStartX;
-        const deltaY = touchEndY - touchStartY;
-        
-        const minSwipeDistance = 30;
-        
-        // Determine if it's a swipe or tap
-        if (Math.abs(deltaX) > minSwipeDistance || Math.abs(deltaY) > minSwipeDistance) {
-            // Swipe gesture
-            if (Math.abs(deltaX) > Math.abs(deltaY)) {
-                // Horizontal swipe
-                if (deltaX > 0) {
-                    player.moveRight();
-                } else {
-                    player.moveLeft();
-                }
-            } else {
-                // Vertical swipe
-                if (deltaY < 0) {
-                    player.jump();
-                }
-            }
-        } else {
-            // Tap gesture - jump
-            player.jump();
-        }
-    }, { passive: false });
+async function saveSettings(update: UpdatePlayerSettingsRequest) {
+    try {
+        await api.updateSettings(update);
+    } catch (error) {
+        console.error('Failed to save settings:', error);
+        ui.showSettingsMessage('Settings could not be saved');
+    }
+}
 
+function setupControls() {
     // Prevent scrolling and other touch behaviors on mobile
     document.addEventListener('touchmove', (event) => {
         event.preventDefault();
@@ -408,12 +274,34 @@ function setupControls() {
         event.preventDefault();
     });
 
-    // UI Buttons
-    const startBtn = document.getElementById('startBtn');
-    const restartBtn = document.getElementById('restartBtn');
-    
-    if (startBtn) startBtn.addEventListener('click', startGame);
-    if (restartBtn) restartBtn.addEventListener('click', startGame);
+    ui.setupEventListeners({
+        onStart: () => void startGame(),
+        onPause: () => game.pauseGame(),
+        onRestart: () => void startGame(),
+        onShowStats: () => void showStats(),
+        onShowAchievements: () => ui.showAchievements(achievements.statuses),
+        onShowSettings: () => void showSettings(),
+        onChallenge: (username) => void sendChallenge(username),
+        onTouchControl: (control) => {
+            switch (control) {
+                case 'jump':
+                    game.jump();
+                    break;
+                case 'left':
+                    game.moveLeft();
+                    break;
+                case 'slide':
+                    game.slide();
+                    break;
+                case 'right':
+                    game.moveRight();
+                    break;
+                default:
+                    // A new control must get its own case
+                    control satisfies never;
+            }
+        },
+    });
 }
 
 // Game Loop
@@ -424,42 +312,21 @@ function animate(currentTime: number) {
     const deltaTime = (currentTime - lastTime) / 1000;
     lastTime = currentTime;
 
-    if (gameState.isPlaying && !gameState.gameOver) {
-        // Update player
-        player.update(deltaTime);
-
-        // Update obstacles
-        obstacles.forEach((obstacle, index) => {
-            obstacle.update(deltaTime);
-            if (obstacle.mesh.position.z > 10) {
-                obstacle.dispose();
-                obstacles.splice(index, 1);
-            }
-        });
-
-        // Update collectibles
-        collectibles.forEach((collectible, index) => {
-            collectible.update(deltaTime);
-            if (collectible.mesh.position.z > 10) {
-                collectible.dispose();
-                collectibles.splice(index, 1);
-            }
-        });
+    const wasPlaying = game.getGameState().isPlaying;
+    game.update(deltaTime);
 
-        // Spawn objects
-        spawnTimer += deltaTime;
-        if (spawnTimer >= spawnInterval) {
-            spawnObjects();
-            spawnTimer = 0;
-            gameState.speed += 0.1;
+    const state = game.getGameState();
+    if (wasPlaying) {
+        // Mirror lives lost in the simulation onto the health bar
+        if (state.lives < lives) {
+            healthBar.takeDamage(lives - state.lives);
         }
+        lives = state.lives;
+        ui.updateGameState(state);
 
-        // Check collisions
-        checkCollisions();
-
-        // Update score
-        gameState.score += Math.floor(deltaTime * 5);
-        updateUI();
+        if (state.gameOver) {
+            gameOver();
+        }
     }
 
     renderer.render(scene, camera);
@@ -497,22 +364,130 @@ function init() {
     // Show loading screen initially
     showLoadingScreen();
     
+    void loadPostConfig();
+    void loadAchievements();
+    void loadGhostRun();
+    void loadChallenges();
+
     // Simulate loading time and initialize game components
     setTimeout(() => {
         healthBar = new HealthBar({ maxHealth: 3, currentHealth: 3 });
         healthBar.hide(); // Hide until game starts
         
-        createGround();
-        player = new Player();
+        game = new EnhancedRunnerGame(scene, new GameAssetLoader(scene));
+        game.onRunEvents((events, summary, player) => {
+            telemetry.record(events, player);
+            achievements.check(summary).forEach((achievement) => ui.showAchievementToast(achievement, true));
+        });
         setupControls();
         animate(performance.now());
         
         // Hide loading screen and show start screen
         hideLoadingScreen();
-        showStartScreen();
+        ui.show();
     }, 2000); // 2 second loading time
 }
 
+async function loadPostConfig() {
+    try {
+        const config = await api.getPostConfig();
+        postData = config.postData;
+        gameplay = config.gameplay;
+        ui.setCollectibles(runRulesForPost(postData, gameplay));
+        updateChallengeInfo();
+        if (postData.tournament) {
+            void loadTournament();
+        }
+    } catch (error) {
+        console.error('Failed to load post config:', error);
+    }
+}
+
+async function loadAchievements() {
+    try {
+        const [{ unlocked }, { stats }] = await Promise.all([api.getAchievements(), api.getStats()]);
+        achievements.load(unlocked, stats);
+    } catch (error) {
+        // Logged-out players can still play, they just don't unlock anything
+        if (!(error instanceof ApiError && error.status === 401)) {
+            console.error('Failed to load achievements:', error);
+        }
+    }
+}
+
+async function loadGhostRun() {
+    try {
+        ({ ghost } = await api.getGhostRun());
+    } catch (error) {
+        if (!(error instanceof ApiError && error.status === 401)) {
+            console.error('Failed to load ghost run:', error);
+        }
+    }
+}
+
+async function loadChallenges() {
+    try {
+        const { incoming } = await api.getChallenges();
+        setIncomingChallenge(incoming[0]);
+    } catch (error) {
+        if (!(error instanceof ApiError && error.status === 401)) {
+            console.error('Failed to load challenges:', error);
+        }
+    }
+}
+
+function setIncomingChallenge(challenge: Challenge | undefined) {
+    incomingChallenge = challenge;
+    ui.setTargetScore(challenge && { username: challenge.challenger, score: challenge.targetScore });
+}
+
+async function loadTournament() {
+    try {
+        tournament = await api.getTournament();
+        updateChallengeInfo();
+    } catch (error) {
+        console.error('Failed to load tournament:', error);
+    }
+}
+
+function formatTime(time: number) {
+    return new Date(time).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+function tournamentInfo({ tournament: config, status, round, attemptsUsed, results }: TournamentResponse) {
+    if (status === 'upcoming') {
+        return `🏆 Tournament starts ${formatTime(config.startsAt)}`;
+    }
+    if (status === 'closed') {
+        const winner = results?.standings[0];
+        return winner
+            ? `🏆 Tournament over · Winner: u/${winner.username} (${winner.score})`
+            : '🏆 Tournament over';
+    }
+
+    const attemptsLeft = Math.max(0, config.attemptsPerUser - (attemptsUsed ?? 0));
+    return [
+        round === undefined ? '🏆 Tournament' : `🏆 Tournament · Round ${round}`,
+        `${attemptsLeft}/${config.attemptsPerUser} attempts left`,
+        `ends ${formatTime(config.endsAt)}`,
+    ].join(' · ');
+}
+
+function updateChallengeInfo() {
+    if (postData.mode === 'tournament') {
+        ui.setChallengeInfo(tournament ? tournamentInfo(tournament) : '🏆 Tournament');
+        return;
+    }
+    ui.setChallengeInfo(postData.mode === 'daily'
+        ? `🪔 Daily Diwali Run ${postData.challengeDate ?? ''}`.trim()
+        : '');
+}
+
 // Loading screen functions
 function showLoadingScreen() {
     const loadingScreen = document.getElementById('loadingScreen');
@@ -524,10 +499,5 @@ function hideLoadingScreen() {
     if (loadingScreen) loadingScreen.style.display = 'none';
 }
 
-function showStartScreen() {
-    const startScreen = document.getElementById('startScreen');
-    if (startScreen) startScreen.style.display = 'block';
-}
-
 // Start the game
 init();
\ No newline at end of file
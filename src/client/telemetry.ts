@@ -0,0 +1,56 @@
+import { LANE_POSITIONS, SIMULATION_STEP } from '../shared/simulation/rules';
+import { RunEvent, RunSummary, SimPlayer } from '../shared/simulation/run-simulation';
+import { isDeviceProfile, telemetrySegment } from '../shared/telemetry';
+import { RunTelemetry } from '../shared/types/api';
+
+/** Assumed when the performance profile is one the analytics do not chart. */
+const FALLBACK_DEVICE_PROFILE = 'mid-range';
+
+/**
+ * Collects the anonymous telemetry for the run in progress: which lane the
+ * player spends each part of the run in, and the obstacle that ended it.
+ */
+export class RunTelemetryRecorder {
+  private ticks = 0;
+  private laneTicks: number[][] = [];
+  private lastHit?: RunTelemetry['death'];
+  private death?: RunTelemetry['death'];
+
+  startRun(): void {
+    this.ticks = 0;
+    this.laneTicks = [];
+    this.lastHit = undefined;
+    this.death = undefined;
+  }
+
+  /** Records one simulation tick. */
+  record(events: RunEvent[], player: Readonly<SimPlayer>): void {
+    const segment = telemetrySegment(this.ticks * SIMULATION_STEP * 1000);
+    while (this.laneTicks.length <= segment) {
+      this.laneTicks.push(LANE_POSITIONS.map(() => 0));
+    }
+    this.laneTicks[segment]![player.lane]!++;
+    this.ticks++;
+
+    for (const event of events) {
+      if (event.type === 'obstacle-hit') {
+        this.lastHit = { lane: event.obstacle.lane, speed: event.obstacle.speed };
+      } else if (event.type === 'game-over') {
+        this.death = this.lastHit;
+      }
+    }
+  }
+
+  /** Telemetry for the finished run, or undefined if it did not end on an obstacle. */
+  finish(summary: RunSummary, deviceProfile: string): RunTelemetry | undefined {
+    if (!this.death) return undefined;
+
+    return {
+      runLengthMs: summary.timeSurvivedMs,
+      death: this.death,
+      pickups: { ...summary.collectibles },
+      laneTicks: this.laneTicks.map((lanes) => [...lanes]),
+      deviceProfile: isDeviceProfile(deviceProfile) ? deviceProfile : FALLBACK_DEVICE_PROFILE,
+    };
+  }
+}
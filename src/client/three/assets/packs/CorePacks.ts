@@ -1,5 +1,8 @@
 import * as THREE from 'three';
 import { AssetManager } from '../AssetManager';
+import { OBSTACLE_ASSETS } from '../../../../shared/simulation/obstacles';
+import { DIWALI_PICKUP_TYPES, DIWALI_PICKUPS } from '../../../../shared/simulation/pickup-effects';
+import { POWER_UP_PICKUPS, POWER_UP_TYPES } from '../../../../shared/simulation/power-ups';
 
 export interface AssetPack {
   name: string;
@@ -114,30 +117,31 @@ export class CorePacks {
       name: 'Obstacles_Core',
       version: '1.0.0',
       dependencies: ['Lane_Tiles_Core'],
+      // Obstacle metadata is shared with the simulation, which sizes and moves obstacles by it
       assets: [
         {
-          id: 'obstacle-barrier',
+          id: OBSTACLE_ASSETS.barrier.id,
           type: 'model',
           path: 'core/obstacles/barrier.glb',
-          metadata: { height: 1.5, destructible: false }
+          metadata: OBSTACLE_ASSETS.barrier.metadata
         },
         {
-          id: 'obstacle-cone',
+          id: OBSTACLE_ASSETS.cone.id,
           type: 'model',
           path: 'core/obstacles/cone.glb',
-          metadata: { height: 0.8, destructible: true }
+          metadata: OBSTACLE_ASSETS.cone.metadata
         },
         {
-          id: 'obstacle-truck',
+          id: OBSTACLE_ASSETS.truck.id,
           type: 'model',
           path: 'core/obstacles/truck.glb',
-          metadata: { width: 2.5, moving: true, speed: 2 }
+          metadata: OBSTACLE_ASSETS.truck.metadata
         },
         {
-          id: 'obstacle-pit',
+          id: OBSTACLE_ASSETS.pit.id,
           type: 'geometry',
           path: 'core/obstacles/pit',
-          metadata: { depth: 2, width: 3 }
+          metadata: OBSTACLE_ASSETS.pit.metadata
         }
       ]
     });
@@ -154,24 +158,13 @@ export class CorePacks {
           path: 'core/pickups/coin.glb',
           metadata: { value: 10, animation: 'spin' }
         },
-        {
-          id: 'pickup-magnet',
-          type: 'model',
-          path: 'core/pickups/magnet.glb',
-          metadata: { duration: 5, range: 3 }
-        },
-        {
-          id: 'pickup-multiplier',
+        // Power-up metadata is shared with the simulation, which applies the effects
+        ...POWER_UP_TYPES.map((type): AssetDefinition => ({
+          id: POWER_UP_PICKUPS[type].id,
           type: 'model',
-          path: 'core/pickups/multiplier.glb',
-          metadata: { multiplier: 2, duration: 10 }
-        },
-        {
-          id: 'pickup-shield',
-          type: 'model',
-          path: 'core/pickups/shield.glb',
-          metadata: { duration: 8, invulnerable: true }
-        }
+          path: `core/pickups/${type}.glb`,
+          metadata: POWER_UP_PICKUPS[type].metadata
+        }))
       ]
     });
 
@@ -314,25 +307,13 @@ export const DiwaliNightPack: AssetPack = {
       metadata: { diyas: 4, sparklers: 2 }
     },
 
-    // Cultural pickups
-    {
-      id: 'pickup-share-diya',
-      type: 'model',
-      path: 'themes/diwali-night/pickups/share-diya.glb',
-      metadata: { effect: 'heal', value: 25, glow: true }
-    },
-    {
-      id: 'pickup-phooljhadi-boost',
+    // Cultural pickups, whose effects the simulation applies from this metadata
+    ...DIWALI_PICKUP_TYPES.map((type): AssetDefinition => ({
+      id: DIWALI_PICKUPS[type].id,
       type: 'model',
-      path: 'themes/diwali-night/pickups/phooljhadi.glb',
-      metadata: { effect: 'speed-trail', duration: 8, sparkles: true }
-    },
-    {
-      id: 'pickup-rangoli-shield',
-      type: 'model',
-      path: 'themes/diwali-night/pickups/rangoli.glb',
-      metadata: { effect: 'aoe-protection', duration: 10, radius: 5 }
-    },
+      path: `themes/diwali-night/pickups/${DIWALI_PICKUPS[type].model}.glb`,
+      metadata: DIWALI_PICKUPS[type].metadata
+    })),
 
     // Skyline and environment
     {
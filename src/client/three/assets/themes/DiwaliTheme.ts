@@ -1,9 +1,10 @@
 import * as THREE from 'three';
 import { AssetManager } from '../AssetManager';
+import { PickupEffect } from '../../../../shared/simulation/pickup-effects';
 
 export interface DiwaliPickup {
   type: 'share-diya' | 'phooljhadi-boost' | 'rangoli-shield';
-  effect: 'heal' | 'speed-trail' | 'aoe-protection';
+  effect: PickupEffect;
   duration?: number;
   value?: number;
 }
@@ -1,6 +1,40 @@
 import * as THREE from 'three';
 import { GameAssetLoader } from '../assets/GameAssetLoader';
 import { ProfileManager } from '../assets/ProfileManager';
+import { runRulesForPost } from '../../../shared/post-data';
+import { createSeed } from '../../../shared/simulation/random';
+import {
+  COLLECTIBLE_TYPES,
+  COLLECTIBLE_VALUES,
+  CollectibleType,
+  DEFAULT_RUN_RULES,
+  RunRules,
+  SIMULATION_STEP,
+} from '../../../shared/simulation/rules';
+import {
+  RunAction,
+  RunEvent,
+  RunInput,
+  RunRecord,
+  RunReplay,
+  RunSimulation,
+  RunSummary,
+  SimObstacle,
+  SimPlayer,
+} from '../../../shared/simulation/run-simulation';
+import { OBSTACLE_ASSETS, ObstacleRule, ObstacleType } from '../../../shared/simulation/obstacles';
+import {
+  ActivePickupEffect,
+  DIWALI_PICKUPS,
+  DiwaliPickupType,
+} from '../../../shared/simulation/pickup-effects';
+import {
+  ActivePowerUp,
+  POWER_UP_PICKUPS,
+  PowerUpType,
+} from '../../../shared/simulation/power-ups';
+import { GameplaySettings } from '../../../shared/types/api';
+import { GamePostData } from '../../../shared/types/post';
 
 export interface GameState {
   isPlaying: boolean;
@@ -10,37 +44,57 @@ export interface GameState {
   lives: number;
   gameOver: boolean;
   theme: string;
+  powerUps: ActivePowerUp[];
+  pickupEffects: ActivePickupEffect[];
 }
 
+/**
+ * Called after every simulation tick with what happened during it, the run so
+ * far and where the player ended the tick.
+ */
+export type RunEventCallback = (
+  events: RunEvent[],
+  summary: RunSummary,
+  player: Readonly<SimPlayer>
+) => void;
+
 export interface GameObject {
   mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
   update(deltaTime: number): void;
   dispose(): void;
 }
 
+/** Longest frame the game will catch up on; longer stalls are dropped. */
+const MAX_FRAME_TIME = 0.25;
+
+/** Opacity of the ghost runner replaying the player's best run. */
+const GHOST_OPACITY = 0.35;
+
+/** Half the height of the runner's capsule. */
+const RUNNER_HALF_HEIGHT = 0.9;
+
+/** How far the runner squashes down while sliding. */
+const SLIDE_SCALE = 0.5;
+
 export class EnhancedPlayer implements GameObject {
   mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  private jumpForce = 15;
-  private gravity = -50;
-  private groundY = 0;
-  private isGrounded = true;
-  private lanes = [-2, 0, 2]; // Left, center, right lanes
-  private currentLane = 1; // Start in center
-  private targetX = 0;
-  private moveSpeed = 8;
   private assetLoader: GameAssetLoader;
   private trailParticles?: THREE.Points;
+  private boosting = false;
+  private runnerTexture?: THREE.Texture;
+  private slideTexture?: THREE.Texture;
 
-  constructor(assetLoader: GameAssetLoader) {
+  /** Ghost players are translucent and leave no sparkler trail. */
+  constructor(assetLoader: GameAssetLoader, options: { ghost?: boolean } = {}) {
     this.assetLoader = assetLoader;
     
     // Try to get runner asset, fallback to basic geometry
     const runnerAsset = this.assetLoader.getAsset('runner-idle');
     
     if (runnerAsset) {
-      // Use loaded runner model/texture
+      // Use loaded runner model/texture, swapping to the slide frames while sliding
+      this.runnerTexture = runnerAsset;
+      this.slideTexture = this.assetLoader.getAsset('runner-slide');
       const geometry = new THREE.CapsuleGeometry(0.3, 1.2, 4, 8);
       const material = new THREE.MeshStandardMaterial({ 
         map: runnerAsset,
@@ -59,9 +113,16 @@ export class EnhancedPlayer implements GameObject {
     }
     
     this.mesh.position.set(0, 1, 0);
+
+    if (options.ghost) {
+      const material = this.mesh.material as THREE.MeshStandardMaterial;
+      material.transparent = true;
+      material.opacity = GHOST_OPACITY;
+      material.depthWrite = false;
+      return;
+    }
+
     this.mesh.castShadow = true;
-    this.velocity = new THREE.Vector3(0, 0, 0);
-    
     this.createTrailEffect();
   }
 
@@ -99,17 +160,23 @@ export class EnhancedPlayer implements GameObject {
     this.mesh.add(this.trailParticles);
   }
 
-  jump(): void {
-    if (this.isGrounded) {
-      this.velocity.y = this.jumpForce;
-      this.isGrounded = false;
-      
-      // Create jump sparkle effect
-      this.createJumpEffect();
+  /** Moves the mesh to the simulated player position, crouched low while sliding. */
+  syncTo(player: SimPlayer): void {
+    const sliding = player.slideTicks > 0;
+    this.mesh.scale.y = sliding ? SLIDE_SCALE : 1;
+    // Lower the squashed runner so their feet stay on the ground
+    const crouch = sliding ? RUNNER_HALF_HEIGHT * (1 - SLIDE_SCALE) : 0;
+    this.mesh.position.set(player.x, player.y - crouch, 0);
+
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    const map = sliding ? (this.slideTexture ?? this.runnerTexture) : this.runnerTexture;
+    if (material.map !== (map ?? null)) {
+      material.map = map ?? null;
+      material.needsUpdate = true;
     }
   }
 
-  private createJumpEffect(): void {
+  playJumpEffect(): void {
     // Create temporary sparkle effect on jump
     const sparkleCount = 10;
     const geometry = new THREE.BufferGeometry();
@@ -154,41 +221,20 @@ export class EnhancedPlayer implements GameObject {
     animate();
   }
 
-  moveLeft(): void {
-    if (this.currentLane > 0) {
-      this.currentLane--;
-      this.targetX = this.lanes[this.currentLane]!;
-    }
-  }
+  /** Stretches the sparkler trail into a long streak while a phooljhadi speed burst lasts. */
+  setBoosting(boosting: boolean): void {
+    if (this.boosting === boosting) return;
+    this.boosting = boosting;
 
-  moveRight(): void {
-    if (this.currentLane < this.lanes.length - 1) {
-      this.currentLane++;
-      this.targetX = this.lanes[this.currentLane]!;
+    if (this.trailParticles) {
+      (this.trailParticles.material as THREE.PointsMaterial).size = boosting ? 3.5 : 2;
     }
+    // The runner glows while the burst makes them invulnerable
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.setHex(boosting ? 0xaa5500 : 0x331100);
   }
 
-  update(deltaTime: number): void {
-    // Handle lane switching
-    const dx = this.targetX - this.mesh.position.x;
-    if (Math.abs(dx) > 0.1) {
-      this.mesh.position.x += dx * this.moveSpeed * deltaTime;
-    } else {
-      this.mesh.position.x = this.targetX;
-    }
-
-    // Handle jumping and gravity
-    if (!this.isGrounded) {
-      this.velocity.y += this.gravity * deltaTime;
-      this.mesh.position.y += this.velocity.y * deltaTime;
-
-      if (this.mesh.position.y <= this.groundY + 0.6) {
-        this.mesh.position.y = this.groundY + 0.6;
-        this.velocity.y = 0;
-        this.isGrounded = true;
-      }
-    }
-
+  update(_deltaTime: number): void {
     // Add subtle running animation
     this.mesh.rotation.z = Math.sin(Date.now() * 0.01) * 0.1;
     
@@ -198,9 +244,17 @@ export class EnhancedPlayer implements GameObject {
       const time = Date.now() * 0.001;
       
       for (let i = 0; i < positions.length; i += 3) {
-        positions[i] = Math.sin(time + i) * 0.3;
-        positions[i + 1] = Math.cos(time + i) * 0.2 - 0.5;
-        positions[i + 2] = Math.sin(time * 2 + i) * 0.2 - 1;
+        if (this.boosting) {
+          // Sparks stream out behind the runner, flickering as they go
+          const along = (i / positions.length + time * 3) % 1;
+          positions[i] = (Math.random() - 0.5) * 0.4 * along;
+          positions[i + 1] = Math.sin(time * 20 + i) * 0.15 - 0.3;
+          positions[i + 2] = along * 4;
+        } else {
+          positions[i] = Math.sin(time + i) * 0.3;
+          positions[i + 1] = Math.cos(time + i) * 0.2 - 0.5;
+          positions[i + 2] = Math.sin(time * 2 + i) * 0.2 - 1;
+        }
       }
       
       this.trailParticles.geometry.attributes.position.needsUpdate = true;
@@ -217,46 +271,155 @@ export class EnhancedPlayer implements GameObject {
   }
 }
 
+/** How an obstacle type looks. Its size and behaviour come from the run's rules. */
+interface ObstacleVisual {
+  /** Pack asset used instead of the fallback mesh once it is loaded. */
+  assetId?: string;
+  /** Builds the fallback mesh to fill the obstacle's hitbox. */
+  createMesh: (rule: ObstacleRule) => THREE.Mesh;
+  glowColor: number;
+  /** What the obstacle does on the spot: spin, sway in the breeze or stay put. */
+  idle: 'spin' | 'sway' | 'still';
+}
+
+const standardMesh = (geometry: THREE.BufferGeometry, color: number, emissive: number) =>
+  new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color, emissive, roughness: 0.4 }));
+
+/** A garland strung across the lane, with marigolds and mango leaves hanging from it. */
+const createToranMesh = ({ hitbox: { halfWidth, halfHeight } }: ObstacleRule): THREE.Mesh => {
+  // The cord runs along the top of the hitbox, with everything hanging below it
+  const top = halfHeight - 0.06;
+  const cordGeometry = new THREE.BoxGeometry(halfWidth * 2, 0.12, 0.12);
+  cordGeometry.translate(0, top, 0);
+  const cord = standardMesh(cordGeometry, 0xcc3300, 0x220800);
+
+  const marigold = new THREE.SphereGeometry(0.1, 6, 4);
+  const leaf = new THREE.ConeGeometry(0.08, 0.3, 4);
+  const marigoldMaterial = new THREE.MeshStandardMaterial({ color: 0xffa500, emissive: 0x442200 });
+  const leafMaterial = new THREE.MeshStandardMaterial({ color: 0x228b22, emissive: 0x002200 });
+
+  // Strings of marigolds alternate with mango leaves along the cord
+  const strands = 7;
+  for (let i = 0; i < strands; i++) {
+    const x = -halfWidth + ((i + 0.5) / strands) * halfWidth * 2;
+    if (i % 2 === 0) {
+      for (let j = 0; j < 3; j++) {
+        const flower = new THREE.Mesh(marigold, marigoldMaterial);
+        flower.position.set(x, top - 0.2 - j * 0.2, 0);
+        cord.add(flower);
+      }
+    } else {
+      const hanging = new THREE.Mesh(leaf, leafMaterial);
+      hanging.rotation.x = Math.PI;
+      hanging.position.set(x, top - 0.2, 0);
+      cord.add(hanging);
+    }
+  }
+
+  return cord;
+};
+
+/** A delivery truck decked out in marigolds, with its cab facing the player. */
+const createTruckMesh = ({ hitbox: { halfWidth, halfHeight, halfDepth } }: ObstacleRule) => {
+  const body = standardMesh(
+    new THREE.BoxGeometry(halfWidth * 2, halfHeight * 2, halfDepth * 2),
+    0x1f4e8c,
+    0x050f20
+  );
+  const cab = standardMesh(
+    new THREE.BoxGeometry(halfWidth * 1.8, halfHeight, 0.6),
+    0xffcc00,
+    0x221a00
+  );
+  cab.position.set(0, -halfHeight / 2, halfDepth + 0.3);
+  body.add(cab);
+  return body;
+};
+
+/** A dark hole in the track with embers glowing at the bottom. */
+const createPitMesh = ({ y, hitbox: { halfWidth, halfDepth } }: ObstacleRule) => {
+  const geometry = new THREE.BoxGeometry(halfWidth * 2, 0.02, halfDepth * 2);
+  // Lay it flat on the ground rather than floating at the hitbox's centre
+  geometry.translate(0, 0.02 - y, 0);
+  return standardMesh(geometry, 0x0a0a0a, 0x331100);
+};
+
+const OBSTACLE_VISUALS: Record<ObstacleType, ObstacleVisual> = {
+  barrier: {
+    assetId: OBSTACLE_ASSETS.barrier.id,
+    createMesh: ({ hitbox: { halfWidth, halfHeight, halfDepth } }) =>
+      standardMesh(
+        new THREE.BoxGeometry(halfWidth * 2, halfHeight * 2, halfDepth * 2),
+        0x8b0000, // Dark red
+        0x330000
+      ),
+    glowColor: 0xff4444,
+    idle: 'spin',
+  },
+  cone: {
+    assetId: OBSTACLE_ASSETS.cone.id,
+    createMesh: ({ hitbox: { halfWidth, halfHeight } }) =>
+      standardMesh(new THREE.ConeGeometry(halfWidth, halfHeight * 2, 12), 0xff6600, 0x331100),
+    glowColor: 0xff8800,
+    idle: 'still',
+  },
+  truck: {
+    assetId: OBSTACLE_ASSETS.truck.id,
+    createMesh: createTruckMesh,
+    glowColor: 0x4488ff,
+    idle: 'still',
+  },
+  pit: {
+    assetId: OBSTACLE_ASSETS.pit.id,
+    createMesh: createPitMesh,
+    glowColor: 0xff3300,
+    idle: 'still',
+  },
+  toran: {
+    createMesh: createToranMesh,
+    glowColor: 0xffaa00,
+    idle: 'sway',
+  },
+};
+
 export class DiwaliObstacle implements GameObject {
   mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
+  private visual: ObstacleVisual;
   private glowEffect?: THREE.PointLight;
 
-  constructor(lane: number, z: number, assetLoader: GameAssetLoader) {
+  constructor(
+    obstacle: Pick<SimObstacle, 'type' | 'x' | 'y' | 'z'>,
+    rule: ObstacleRule,
+    assetLoader: GameAssetLoader
+  ) {
+    this.visual = OBSTACLE_VISUALS[obstacle.type];
+
     // Try to get obstacle asset
-    const obstacleAsset = assetLoader.getAsset('obstacle-barrier');
-    
-    if (obstacleAsset) {
-      this.mesh = obstacleAsset.clone();
-    } else {
-      // Create Diwali-themed obstacle
-      const geometry = new THREE.BoxGeometry(0.8, 1.5, 0.8);
-      const material = new THREE.MeshStandardMaterial({ 
-        color: 0x8b0000, // Dark red
-        emissive: 0x330000,
-        roughness: 0.4,
-        metalness: 0.1
-      });
-      this.mesh = new THREE.Mesh(geometry, material);
-    }
+    const obstacleAsset = this.visual.assetId && assetLoader.getAsset(this.visual.assetId);
+    this.mesh = obstacleAsset ? obstacleAsset.clone() : this.visual.createMesh(rule);
 
-    const lanes = [-2, 0, 2];
-    this.mesh.position.set(lanes[lane]!, 0.75, z);
+    this.mesh.position.set(obstacle.x, obstacle.y, obstacle.z);
     this.mesh.castShadow = true;
-    this.velocity = new THREE.Vector3(0, 0, 0);
     
-    // Add subtle glow effect
-    this.glowEffect = new THREE.PointLight(0xff4444, 0.5, 3);
-    this.glowEffect.position.set(0, 0.5, 0);
+    // Add subtle glow effect, kept inside short obstacles
+    this.glowEffect = new THREE.PointLight(this.visual.glowColor, 0.5, 3);
+    this.glowEffect.position.set(0, Math.min(0.5, rule.hitbox.halfHeight), 0);
     this.mesh.add(this.glowEffect);
   }
 
-  update(deltaTime: number): void {
-    // Obstacles move towards the player
-    this.mesh.position.z += this.velocity.z * deltaTime;
+  /** Moves the mesh to the simulated obstacle position. */
+  syncTo(obstacle: { x: number; z: number }): void {
+    this.mesh.position.x = obstacle.x;
+    this.mesh.position.z = obstacle.z;
+  }
 
-    // Add rotation for visual effect
-    this.mesh.rotation.y += 2 * deltaTime;
+  update(deltaTime: number): void {
+    if (this.visual.idle === 'sway') {
+      this.mesh.rotation.z = Math.sin(Date.now() * 0.003 + this.mesh.position.z) * 0.05;
+    } else if (this.visual.idle === 'spin') {
+      // Add rotation for visual effect
+      this.mesh.rotation.y += 2 * deltaTime;
+    }
     
     // Animate glow
     if (this.glowEffect) {
@@ -265,26 +428,39 @@ export class DiwaliObstacle implements GameObject {
   }
 
   dispose(): void {
-    this.mesh.geometry.dispose();
-    (this.mesh.material as THREE.Material).dispose();
+    // Some obstacles are built from several meshes
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
   }
 }
 
 export class DiwaliCollectible implements GameObject {
   mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  private type: 'coin' | 'diya' | 'phooljhadi' | 'rangoli';
+  private type: CollectibleType;
+  private value: number;
   private glowEffect?: THREE.PointLight;
 
-  constructor(lane: number, z: number, assetLoader: GameAssetLoader, type?: string) {
+  constructor(
+    lane: number,
+    z: number,
+    assetLoader: GameAssetLoader,
+    type?: CollectibleType,
+    value?: number
+  ) {
     const lanes = [-2, 0, 2];
     
     // Determine collectible type
-    const types = ['coin', 'diya', 'phooljhadi', 'rangoli'];
-    this.type = (type as any) || types[Math.floor(Math.random() * types.length)] as any;
+    this.type = type || COLLECTIBLE_TYPES[Math.floor(Math.random() * COLLECTIBLE_TYPES.length)]!;
+    // Values come from the run's rules, which follow the install's gameplay settings
+    this.value = value ?? COLLECTIBLE_VALUES[this.type];
     
     // Try to get specific Diwali pickup asset
-    const assetId = `pickup-${this.type === 'diya' ? 'share-diya' : this.type}`;
+    const assetId =
+      this.type === 'coin' ? 'pickup-coin' : DIWALI_PICKUPS[this.type as DiwaliPickupType].id;
     const collectibleAsset = assetLoader.getAsset(assetId);
     
     if (collectibleAsset) {
@@ -337,7 +513,6 @@ export class DiwaliCollectible implements GameObject {
     }
 
     this.mesh.position.set(lanes[lane]!, 1, z);
-    this.velocity = new THREE.Vector3(0, 0, 0);
     
     // Add glow effect based on type
     const glowColors = {
@@ -352,10 +527,13 @@ export class DiwaliCollectible implements GameObject {
     this.mesh.add(this.glowEffect);
   }
 
-  update(deltaTime: number): void {
-    // Collectibles move towards the player
-    this.mesh.position.z += this.velocity.z * deltaTime;
+  /** Moves the mesh to the simulated collectible position. */
+  syncTo(collectible: { x: number; z: number }): void {
+    this.mesh.position.x = collectible.x;
+    this.mesh.position.z = collectible.z;
+  }
 
+  update(deltaTime: number): void {
     // Add floating animation
     this.mesh.position.y = 1 + Math.sin(Date.now() * 0.005 + this.mesh.position.z) * 0.2;
     this.mesh.rotation.y += 3 * deltaTime;
@@ -374,21 +552,78 @@ export class DiwaliCollectible implements GameObject {
         this.mesh.rotation.z += 5 * deltaTime;
         break;
         
-      case 'rangoli':
+      case 'rangoli': {
         // Pulsing effect
         const scale = 1 + 0.1 * Math.sin(Date.now() * 0.01);
         this.mesh.scale.setScalar(scale);
         break;
+      }
     }
   }
 
-  getType(): string {
+  getType(): CollectibleType {
     return this.type;
   }
 
   getValue(): number {
-    const values = { coin: 10, diya: 25, phooljhadi: 15, rangoli: 30 };
-    return values[this.type] || 10;
+    return this.value;
+  }
+
+  dispose(): void {
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+}
+
+/** Fallback look and glow of each power-up when its pack model isn't loaded. */
+const POWER_UP_STYLES: Record<PowerUpType, { color: number; emissive: number }> = {
+  magnet: { color: 0xdd2222, emissive: 0x440000 },
+  multiplier: { color: 0x22dd66, emissive: 0x004411 },
+  shield: { color: 0x3399ff, emissive: 0x001844 },
+};
+
+export class DiwaliPowerUp implements GameObject {
+  mesh: THREE.Mesh;
+  private type: PowerUpType;
+
+  constructor(lane: number, z: number, assetLoader: GameAssetLoader, type: PowerUpType) {
+    this.type = type;
+    const { color, emissive } = POWER_UP_STYLES[type];
+
+    const powerUpAsset = assetLoader.getAsset(POWER_UP_PICKUPS[type].id);
+    if (powerUpAsset) {
+      this.mesh = powerUpAsset.clone();
+    } else {
+      const geometry =
+        type === 'magnet'
+          ? new THREE.TorusGeometry(0.3, 0.1, 8, 12, Math.PI)
+          : type === 'multiplier'
+            ? new THREE.OctahedronGeometry(0.35)
+            : new THREE.IcosahedronGeometry(0.35);
+      const material = new THREE.MeshStandardMaterial({ color, emissive, roughness: 0.3 });
+      this.mesh = new THREE.Mesh(geometry, material);
+    }
+
+    const lanes = [-2, 0, 2];
+    this.mesh.position.set(lanes[lane]!, 1, z);
+    this.mesh.castShadow = true;
+    this.mesh.add(new THREE.PointLight(color, 1, 4));
+  }
+
+  /** Moves the mesh to the simulated power-up position. */
+  syncTo(powerUp: { x: number; z: number }): void {
+    this.mesh.position.x = powerUp.x;
+    this.mesh.position.z = powerUp.z;
+  }
+
+  update(deltaTime: number): void {
+    // Float a little higher and slower than regular collectibles so power-ups stand out
+    this.mesh.position.y = 1.2 + Math.sin(Date.now() * 0.004 + this.mesh.position.z) * 0.25;
+    this.mesh.rotation.y += 2 * deltaTime;
+  }
+
+  getType(): PowerUpType {
+    return this.type;
   }
 
   dispose(): void {
@@ -400,35 +635,49 @@ export class DiwaliCollectible implements GameObject {
 export class EnhancedRunnerGame {
   private scene: THREE.Scene;
   private player: EnhancedPlayer;
-  private obstacles: DiwaliObstacle[] = [];
-  private collectibles: DiwaliCollectible[] = [];
+  private obstacles = new Map<number, DiwaliObstacle>();
+  private collectibles = new Map<number, DiwaliCollectible>();
+  private powerUps = new Map<number, DiwaliPowerUp>();
+  /** Rangoli laid around the player while its protection clears obstacles. */
+  private rangoliAura?: THREE.Mesh;
   private gameState: GameState;
-  private spawnTimer = 0;
-  private spawnInterval = 2; // seconds
+  private simulation: RunSimulation;
+  private rules: RunRules = DEFAULT_RUN_RULES;
+  private inputLog: RunInput[] = [];
+  private accumulator = 0;
   private ground!: THREE.Mesh;
   private assetLoader: GameAssetLoader;
   private profileManager: ProfileManager;
+  private removeControls?: () => void;
+  private runEventCallbacks: RunEventCallback[] = [];
+  private ghostRecord?: RunRecord;
+  private ghostRules: RunRules = DEFAULT_RUN_RULES;
+  private ghost?: { replay: RunReplay; player: EnhancedPlayer };
 
   constructor(scene: THREE.Scene, assetLoader: GameAssetLoader) {
     this.scene = scene;
     this.assetLoader = assetLoader;
     this.profileManager = ProfileManager.getInstance();
+    this.simulation = new RunSimulation(createSeed());
     
     this.gameState = {
       isPlaying: false,
       isPaused: false,
       score: 0,
-      speed: 10,
-      lives: 3,
+      speed: this.simulation.speed,
+      lives: this.simulation.lives,
       gameOver: false,
       theme: 'diwali-night',
+      powerUps: [],
+      pickupEffects: [],
     };
 
+    // The player must exist before the scene is set up
+    this.player = new EnhancedPlayer(this.assetLoader);
+    this.player.syncTo(this.simulation.player);
+
     this.setupScene();
     this.setupControls();
-    
-    // Create player after assets are loaded
-    this.player = new EnhancedPlayer(this.assetLoader);
   }
 
   private setupScene(): void {
@@ -509,63 +758,136 @@ export class EnhancedRunnerGame {
         case 'Space':
         case 'ArrowUp':
           event.preventDefault();
-          this.player.jump();
+          this.jump();
           break;
         case 'ArrowLeft':
         case 'KeyA':
           event.preventDefault();
-          this.player.moveLeft();
+          this.moveLeft();
           break;
         case 'ArrowRight':
         case 'KeyD':
           event.preventDefault();
-          this.player.moveRight();
+          this.moveRight();
+          break;
+        case 'ArrowDown':
+        case 'KeyS':
+          event.preventDefault();
+          this.slide();
           break;
       }
     };
 
-    // Touch controls for mobile
-    const handleTouch = (event: TouchEvent) => {
+    // Touch controls for mobile: swipe to move, jump or slide, tap to jump
+    let touchStartX = 0;
+    let touchStartY = 0;
+
+    const handleTouchStart = (event: TouchEvent) => {
       if (!this.gameState.isPlaying || this.gameState.isPaused) return;
 
       event.preventDefault();
       const touch = event.touches[0];
       if (!touch) return;
 
-      const rect = (event.target as HTMLElement).getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-      const centerX = rect.width / 2;
-      const centerY = rect.height / 2;
+      touchStartX = touch.clientX;
+      touchStartY = touch.clientY;
+    };
 
-      if (y < centerY) {
-        // Top half - jump
-        this.player.jump();
-      } else {
-        // Bottom half - move left/right
-        if (x < centerX) {
-          this.player.moveLeft();
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (!this.gameState.isPlaying || this.gameState.isPaused) return;
+
+      event.preventDefault();
+      const touch = event.changedTouches[0];
+      if (!touch) return;
+
+      const deltaX = touch.clientX - touchStartX;
+      const deltaY = touch.clientY - touchStartY;
+      const minSwipeDistance = 30;
+
+      if (Math.abs(deltaX) > minSwipeDistance || Math.abs(deltaY) > minSwipeDistance) {
+        if (Math.abs(deltaX) > Math.abs(deltaY)) {
+          if (deltaX > 0) {
+            this.moveRight();
+          } else {
+            this.moveLeft();
+          }
+        } else if (deltaY < 0) {
+          this.jump();
         } else {
-          this.player.moveRight();
+          this.slide();
         }
+      } else {
+        this.jump();
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
-    document.addEventListener('touchstart', handleTouch);
+    document.addEventListener('touchstart', handleTouchStart, { passive: false });
+    document.addEventListener('touchend', handleTouchEnd, { passive: false });
+
+    this.removeControls = () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('touchstart', handleTouchStart);
+      document.removeEventListener('touchend', handleTouchEnd);
+    };
   }
 
-  startGame(): void {
+  jump(): void {
+    if (this.handleInput('jump')) {
+      this.player.playJumpEffect();
+    }
+  }
+
+  slide(): void {
+    this.handleInput('slide');
+  }
+
+  moveLeft(): void {
+    this.handleInput('left');
+  }
+
+  moveRight(): void {
+    this.handleInput('right');
+  }
+
+  /** Applies an input to the simulation and records it in the run's input log. */
+  private handleInput(action: RunAction): boolean {
+    if (!this.gameState.isPlaying || this.gameState.isPaused) return false;
+
+    const tick = this.simulation.tick;
+    if (!this.simulation.applyInput(action)) return false;
+
+    this.inputLog.push({ tick, action });
+    return true;
+  }
+
+  /**
+   * Applies a post's configuration, on top of the install's gameplay settings,
+   * to every run started after this call.
+   */
+  applyPostConfig(config: GamePostData, gameplay?: GameplaySettings): void {
+    this.rules = runRulesForPost(config, gameplay);
+    this.gameState.theme = config.theme;
+    if (!this.gameState.isPlaying) {
+      this.gameState.speed = this.rules.startingSpeed;
+      this.gameState.lives = this.rules.startingLives;
+    }
+  }
+
+  startGame(seed: number = createSeed()): void {
+    this.simulation = new RunSimulation(seed, this.rules);
+    this.inputLog = [];
+    this.accumulator = 0;
+
     this.gameState.isPlaying = true;
     this.gameState.isPaused = false;
     this.gameState.gameOver = false;
-    this.gameState.score = 0;
-    this.gameState.speed = 10;
-    this.gameState.lives = 3;
-    this.spawnTimer = 0;
+    this.syncGameState();
 
     // Clear existing obstacles and collectibles
     this.clearGameObjects();
+    this.player.syncTo(this.simulation.player);
+    this.spawnGhost();
     
     console.log('🎆 Diwali Runner Game Started!');
   }
@@ -578,6 +900,35 @@ export class EnhancedRunnerGame {
     this.gameState.isPlaying = false;
     this.gameState.gameOver = true;
     this.clearGameObjects();
+    this.removeGhost();
+  }
+
+  /**
+   * Sets the run replayed as a ghost in every run started after this call, and
+   * the rules it was played under; the current post's rules by default.
+   */
+  setGhostRun(record: RunRecord | undefined, rules: RunRules = this.rules): void {
+    this.ghostRecord = record;
+    this.ghostRules = rules;
+  }
+
+  private spawnGhost(): void {
+    this.removeGhost();
+    if (!this.ghostRecord) return;
+
+    // The ghost replays its own run, world and all, and only its runner is drawn
+    const replay = new RunReplay(this.ghostRecord, this.ghostRules);
+    const player = new EnhancedPlayer(this.assetLoader, { ghost: true });
+    player.syncTo(replay.simulation.player);
+    this.scene.add(player.mesh);
+    this.ghost = { replay, player };
+  }
+
+  private removeGhost(): void {
+    if (!this.ghost) return;
+    this.scene.remove(this.ghost.player.mesh);
+    this.ghost.player.dispose();
+    this.ghost = undefined;
   }
 
   private clearGameObjects(): void {
@@ -586,87 +937,267 @@ export class EnhancedRunnerGame {
       this.scene.remove(obstacle.mesh);
       obstacle.dispose();
     });
-    this.obstacles = [];
+    this.obstacles.clear();
 
     // Remove collectibles
     this.collectibles.forEach((collectible) => {
       this.scene.remove(collectible.mesh);
       collectible.dispose();
     });
-    this.collectibles = [];
-  }
-
-  private spawnObjects(): void {
-    // Randomly spawn obstacles and collectibles
-    const lanes = [0, 1, 2];
-    const availableLanes = [...lanes];
-
-    // Spawn 1-2 obstacles (fewer for better gameplay)
-    const obstacleCount = Math.random() < 0.6 ? 1 : 2;
-    for (let i = 0; i < obstacleCount && availableLanes.length > 0; i++) {
-      const laneIndex = Math.floor(Math.random() * availableLanes.length);
-      const lane = availableLanes.splice(laneIndex, 1)[0]!;
-      const obstacle = new DiwaliObstacle(lane, -50, this.assetLoader);
-      obstacle.velocity.z = this.gameState.speed;
-      this.obstacles.push(obstacle);
-      this.scene.add(obstacle.mesh);
-    }
+    this.collectibles.clear();
 
-    // Spawn Diwali collectibles in remaining lanes
-    availableLanes.forEach(lane => {
-      if (Math.random() < 0.7) { // Higher chance for collectibles
-        const types = ['coin', 'diya', 'phooljhadi', 'rangoli'];
-        const type = types[Math.floor(Math.random() * types.length)];
-        const collectible = new DiwaliCollectible(lane, -50, this.assetLoader, type);
-        collectible.velocity.z = this.gameState.speed;
-        this.collectibles.push(collectible);
-        this.scene.add(collectible.mesh);
-      }
+    this.powerUps.forEach((powerUp) => {
+      this.scene.remove(powerUp.mesh);
+      powerUp.dispose();
     });
+    this.powerUps.clear();
+
+    this.removeRangoliAura();
+    this.player.setBoosting(false);
   }
 
-  private checkCollisions(): void {
-    const playerPos = this.player.mesh.position;
+  /** Mirrors what happened in the simulation this tick onto the scene. */
+  private handleRunEvents(events: RunEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'obstacle-spawned': {
+          const { id, type } = event.obstacle;
+          const obstacle = new DiwaliObstacle(event.obstacle, this.rules.obstacles[type], this.assetLoader);
+          this.obstacles.set(id, obstacle);
+          this.scene.add(obstacle.mesh);
+          break;
+        }
 
-    // Check obstacle collisions
-    for (let i = this.obstacles.length - 1; i >= 0; i--) {
-      const obstacle = this.obstacles[i]!;
-      const distance = playerPos.distanceTo(obstacle.mesh.position);
+        case 'collectible-spawned': {
+          const { id, lane, z, type } = event.collectible;
+          const collectible = new DiwaliCollectible(
+            lane,
+            z,
+            this.assetLoader,
+            type,
+            this.rules.collectibleValues[type]
+          );
+          this.collectibles.set(id, collectible);
+          this.scene.add(collectible.mesh);
+          break;
+        }
+
+        case 'obstacle-hit': {
+          const obstacle = this.obstacles.get(event.obstacle.id);
+          if (obstacle) {
+            // Create collision effect
+            this.createCollisionEffect(obstacle.mesh.position);
+          }
+          this.removeObstacle(event.obstacle.id);
+          break;
+        }
 
-      if (distance < 1) {
-        // Collision detected
-        this.gameState.lives--;
-        this.scene.remove(obstacle.mesh);
-        obstacle.dispose();
-        this.obstacles.splice(i, 1);
+        case 'collectible-collected': {
+          const collectible = this.collectibles.get(event.collectible.id);
+          if (collectible) {
+            // Create pickup effect
+            this.createPickupEffect(collectible.mesh.position, collectible.getType());
+          }
+          this.removeCollectible(event.collectible.id);
+          break;
+        }
 
-        // Create collision effect
-        this.createCollisionEffect(obstacle.mesh.position);
+        case 'power-up-spawned': {
+          const { id, lane, z, type } = event.powerUp;
+          const powerUp = new DiwaliPowerUp(lane, z, this.assetLoader, type);
+          this.powerUps.set(id, powerUp);
+          this.scene.add(powerUp.mesh);
+          break;
+        }
 
-        if (this.gameState.lives <= 0) {
-          this.stopGame();
+        case 'power-up-collected': {
+          const powerUp = this.powerUps.get(event.powerUp.id);
+          if (powerUp) {
+            this.createPickupEffect(powerUp.mesh.position, powerUp.getType());
+          }
+          this.removePowerUp(event.powerUp.id);
+          break;
         }
+
+        case 'obstacle-broken': {
+          const obstacle = this.obstacles.get(event.obstacle.id);
+          if (obstacle) {
+            this.createPickupEffect(obstacle.mesh.position, event.obstacle.type);
+          }
+          this.removeObstacle(event.obstacle.id);
+          break;
+        }
+
+        case 'obstacle-shielded': {
+          const obstacle = this.obstacles.get(event.obstacle.id);
+          if (obstacle) {
+            // The shield shatters the obstacle instead of the player crashing into it
+            this.createPickupEffect(obstacle.mesh.position, 'shield');
+          }
+          this.removeObstacle(event.obstacle.id);
+          break;
+        }
+
+        case 'pickup-effect-applied':
+          if (event.effect === 'heal') {
+            if (event.livesRestored > 0) this.createHealEffect();
+          } else if (event.effect === 'speed-trail') {
+            this.player.setBoosting(true);
+          } else if (!this.rangoliAura) {
+            this.createRangoliAura();
+          }
+          break;
+
+        case 'pickup-effect-expired':
+          if (event.effect === 'speed-trail') {
+            this.player.setBoosting(false);
+          } else {
+            this.removeRangoliAura();
+          }
+          break;
+
+        case 'obstacle-cleared': {
+          const obstacle = this.obstacles.get(event.obstacle.id);
+          if (obstacle) {
+            const type = event.effect === 'speed-trail' ? 'phooljhadi' : 'rangoli';
+            this.createPickupEffect(obstacle.mesh.position, type);
+          }
+          this.removeObstacle(event.obstacle.id);
+          break;
+        }
+
+        case 'despawned':
+          this.removeObstacle(event.id);
+          this.removeCollectible(event.id);
+          this.removePowerUp(event.id);
+          break;
+
+        case 'power-up-expired':
+        case 'game-over':
+          break;
       }
     }
+  }
 
-    // Check collectible collisions
-    for (let i = this.collectibles.length - 1; i >= 0; i--) {
-      const collectible = this.collectibles[i]!;
-      const distance = playerPos.distanceTo(collectible.mesh.position);
+  private removeObstacle(id: number): void {
+    const obstacle = this.obstacles.get(id);
+    if (!obstacle) return;
 
-      if (distance < 0.8) {
-        // Collectible picked up
-        const value = collectible.getValue();
-        this.gameState.score += value;
-        
-        // Create pickup effect
-        this.createPickupEffect(collectible.mesh.position, collectible.getType());
-        
-        this.scene.remove(collectible.mesh);
-        collectible.dispose();
-        this.collectibles.splice(i, 1);
-      }
+    this.scene.remove(obstacle.mesh);
+    obstacle.dispose();
+    this.obstacles.delete(id);
+  }
+
+  private removeCollectible(id: number): void {
+    const collectible = this.collectibles.get(id);
+    if (!collectible) return;
+
+    this.scene.remove(collectible.mesh);
+    collectible.dispose();
+    this.collectibles.delete(id);
+  }
+
+  private removePowerUp(id: number): void {
+    const powerUp = this.powerUps.get(id);
+    if (!powerUp) return;
+
+    this.scene.remove(powerUp.mesh);
+    powerUp.dispose();
+    this.powerUps.delete(id);
+  }
+
+  /** Green sparks spiral up around the player as a share-diya restores a life. */
+  private createHealEffect(): void {
+    const particleCount = 24;
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(particleCount * 3);
+    
+    for (let i = 0; i < particleCount; i++) {
+      const i3 = i * 3;
+      const angle = (i / particleCount) * Math.PI * 4;
+      positions[i3] = Math.cos(angle) * 0.8;
+      positions[i3 + 1] = (i / particleCount) * 1.5 - 0.5;
+      positions[i3 + 2] = Math.sin(angle) * 0.8;
     }
+    
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    
+    const material = new THREE.PointsMaterial({
+      size: 3,
+      color: 0x44ff88,
+      transparent: true,
+      opacity: 1.0,
+      blending: THREE.AdditiveBlending
+    });
+    
+    const spiral = new THREE.Points(geometry, material);
+    spiral.position.copy(this.player.mesh.position);
+    this.scene.add(spiral);
+    
+    // Rise and spin with the player, then fade out
+    let opacity = 1.0;
+    const animate = () => {
+      opacity -= 0.025;
+      material.opacity = opacity;
+      spiral.position.x = this.player.mesh.position.x;
+      spiral.position.y += 0.03;
+      spiral.rotation.y += 0.15;
+      
+      if (opacity > 0) {
+        requestAnimationFrame(animate);
+      } else {
+        this.scene.remove(spiral);
+        geometry.dispose();
+        material.dispose();
+      }
+    };
+    animate();
+  }
+
+  private createRangoliAura(): void {
+    const protection = this.simulation.activePickupEffects.find(
+      ({ effect }) => effect === 'aoe-protection'
+    );
+    if (!protection || protection.radius <= 0) return;
+
+    // An eight-petalled ring marking how far the protection reaches
+    const geometry = new THREE.RingGeometry(protection.radius - 0.3, protection.radius, 8, 1);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xff1493,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    
+    this.rangoliAura = new THREE.Mesh(geometry, material);
+    this.rangoliAura.rotation.x = -Math.PI / 2;
+    this.rangoliAura.position.set(this.player.mesh.position.x, 0.05, 0);
+    this.scene.add(this.rangoliAura);
+  }
+
+  private updateRangoliAura(): void {
+    if (!this.rangoliAura) return;
+
+    const protection = this.simulation.activePickupEffects.find(
+      ({ effect }) => effect === 'aoe-protection'
+    );
+    const remaining = protection?.remainingSeconds ?? 0;
+    // Pulses while active and fades over its last two seconds
+    const material = this.rangoliAura.material as THREE.MeshBasicMaterial;
+    material.opacity = (0.4 + 0.15 * Math.sin(Date.now() * 0.008)) * Math.min(1, remaining / 2);
+    this.rangoliAura.position.x = this.player.mesh.position.x;
+    this.rangoliAura.rotation.z += 0.01;
+  }
+
+  private removeRangoliAura(): void {
+    if (!this.rangoliAura) return;
+
+    this.scene.remove(this.rangoliAura);
+    this.rangoliAura.geometry.dispose();
+    (this.rangoliAura.material as THREE.Material).dispose();
+    this.rangoliAura = undefined;
   }
 
   private createCollisionEffect(position: THREE.Vector3): void {
@@ -724,7 +1255,11 @@ export class EnhancedRunnerGame {
       coin: [1.0, 0.8, 0.0],
       diya: [1.0, 0.6, 0.0],
       phooljhadi: [1.0, 0.4, 0.2],
-      rangoli: [1.0, 0.1, 0.6]
+      rangoli: [1.0, 0.1, 0.6],
+      magnet: [0.9, 0.1, 0.1],
+      multiplier: [0.1, 0.9, 0.4],
+      shield: [0.2, 0.6, 1.0],
+      cone: [1.0, 0.5, 0.0]
     };
     
     const color = colors[type as keyof typeof colors] || [1.0, 1.0, 1.0];
@@ -780,51 +1315,85 @@ export class EnhancedRunnerGame {
   update(deltaTime: number): void {
     if (!this.gameState.isPlaying || this.gameState.isPaused) return;
 
-    // Update player
-    this.player.update(deltaTime);
+    // Advance the simulation in fixed ticks so the run can be replayed exactly
+    this.accumulator += Math.min(deltaTime, MAX_FRAME_TIME);
+    while (this.accumulator >= SIMULATION_STEP && !this.simulation.gameOver) {
+      this.accumulator -= SIMULATION_STEP;
+      const events = this.simulation.step();
+      this.handleRunEvents(events);
+      this.emitRunEvents(events);
+      this.ghost?.replay.step();
+    }
+
+    if (this.ghost?.replay.finished) {
+      // The ghost vanishes once its run is over
+      this.removeGhost();
+    } else if (this.ghost) {
+      this.ghost.player.syncTo(this.ghost.replay.simulation.player);
+      this.ghost.player.update(deltaTime);
+    }
 
-    // Update obstacles (iterate backwards to safely remove items)
-    for (let i = this.obstacles.length - 1; i >= 0; i--) {
-      const obstacle = this.obstacles[i]!;
-      obstacle.update(deltaTime);
+    // Sync meshes with the simulation and run their visual animations
+    this.player.syncTo(this.simulation.player);
+    this.player.update(deltaTime);
 
-      // Remove obstacles that are behind the player
-      if (obstacle.mesh.position.z > 10) {
-        this.scene.remove(obstacle.mesh);
-        obstacle.dispose();
-        this.obstacles.splice(i, 1);
-      }
+    for (const { id, x, z } of this.simulation.obstacles) {
+      const obstacle = this.obstacles.get(id);
+      obstacle?.syncTo({ x, z });
+      obstacle?.update(deltaTime);
     }
 
-    // Update collectibles (iterate backwards to safely remove items)
-    for (let i = this.collectibles.length - 1; i >= 0; i--) {
-      const collectible = this.collectibles[i]!;
-      collectible.update(deltaTime);
+    for (const { id, x, z } of this.simulation.collectibles) {
+      const collectible = this.collectibles.get(id);
+      collectible?.syncTo({ x, z });
+      collectible?.update(deltaTime);
+    }
 
-      // Remove collectibles that are behind the player
-      if (collectible.mesh.position.z > 10) {
-        this.scene.remove(collectible.mesh);
-        collectible.dispose();
-        this.collectibles.splice(i, 1);
-      }
+    for (const { id, x, z } of this.simulation.powerUps) {
+      const powerUp = this.powerUps.get(id);
+      powerUp?.syncTo({ x, z });
+      powerUp?.update(deltaTime);
     }
 
-    // Spawn new objects
-    this.spawnTimer += deltaTime;
-    if (this.spawnTimer >= this.spawnInterval) {
-      this.spawnObjects();
-      this.spawnTimer = 0;
+    this.updateRangoliAura();
+    this.syncGameState();
 
-      // Gradually increase speed and decrease spawn interval
-      this.gameState.speed += 0.1;
-      this.spawnInterval = Math.max(1.2, this.spawnInterval - 0.02);
+    if (this.simulation.gameOver) {
+      this.stopGame();
     }
+  }
+
+  onRunEvents(callback: RunEventCallback): void {
+    this.runEventCallbacks.push(callback);
+  }
+
+  private emitRunEvents(events: RunEvent[]): void {
+    if (this.runEventCallbacks.length === 0) return;
+    const { summary, player } = this.simulation;
+    this.runEventCallbacks.forEach((callback) => callback(events, summary, player));
+  }
 
-    // Check collisions
-    this.checkCollisions();
+  private syncGameState(): void {
+    this.gameState.score = this.simulation.score;
+    // The run's own speed, as its summary records it; a speed burst shows as a pickup effect
+    this.gameState.speed = this.simulation.speed;
+    this.gameState.lives = this.simulation.lives;
+    this.gameState.powerUps = this.simulation.activePowerUps;
+    this.gameState.pickupEffects = this.simulation.activePickupEffects;
+  }
+
+  /** Seed, input log and length of the current (or last finished) run. */
+  getRunRecord(): RunRecord {
+    return {
+      seed: this.simulation.seed,
+      inputs: [...this.inputLog],
+      ticks: this.simulation.tick,
+    };
+  }
 
-    // Update score based on time survived
-    this.gameState.score += Math.floor(deltaTime * 5);
+  /** Distance, time and pickups of the current run, as the server replay will count them. */
+  getRunSummary(): RunSummary {
+    return this.simulation.summary;
   }
 
   getGameState(): GameState {
@@ -832,7 +1401,9 @@ export class EnhancedRunnerGame {
   }
 
   dispose(): void {
+    this.removeControls?.();
     this.clearGameObjects();
+    this.removeGhost();
     this.scene.remove(this.player.mesh);
     this.scene.remove(this.ground);
     this.player.dispose();
@@ -1,15 +1,87 @@
 import { GameState } from '../game/enhanced-runner-game';
+import { AchievementStatus } from '../../achievements';
+import { ActivePickupEffect, TimedPickupEffect } from '../../../shared/simulation/pickup-effects';
+import { ActivePowerUp, PowerUpType } from '../../../shared/simulation/power-ups';
+import { DEFAULT_RUN_RULES, RunRules } from '../../../shared/simulation/rules';
+import { Achievement } from '../../../shared/types/achievement';
+import { PlayerSettings, PlayerStats } from '../../../shared/types/api';
+
+const COLLECTIBLE_LABELS: Record<keyof PlayerStats['collectibles'], string> = {
+  coin: '🪙 Coins',
+  diya: '🪔 Diyas',
+  phooljhadi: '✨ Sparklers',
+  rangoli: '🌸 Rangolis',
+};
+
+const COLLECTIBLE_NAMES: Record<keyof PlayerStats['collectibles'], string> = {
+  coin: '🪙 Coin',
+  diya: '🪔 Diya',
+  phooljhadi: '✨ Sparkler',
+  rangoli: '🌸 Rangoli',
+};
+
+const POWER_UP_LABELS: Record<PowerUpType, string> = {
+  magnet: '🧲 Magnet',
+  multiplier: '✖️ Multiplier',
+  shield: '🛡️ Shield',
+};
+
+const formatPowerUp = ({ type, remainingSeconds, strength }: ActivePowerUp): string => {
+  const label =
+    type === 'multiplier' ? `${POWER_UP_LABELS[type]} ×${strength}` : POWER_UP_LABELS[type];
+  return `${label} ${remainingSeconds.toFixed(1)}s`;
+};
+
+const PICKUP_EFFECT_LABELS: Record<TimedPickupEffect, string> = {
+  'speed-trail': '🎇 Speed burst',
+  'aoe-protection': '🌸 Rangoli shield',
+};
+
+const formatPickupEffect = ({ effect, remainingSeconds }: ActivePickupEffect): string =>
+  `${PICKUP_EFFECT_LABELS[effect]} ${remainingSeconds.toFixed(1)}s`;
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}h ${minutes}m ${seconds}s` : `${minutes}m ${seconds}s`;
+};
+
+export type TouchControl = 'jump' | 'left' | 'slide' | 'right';
+
+/** How long each achievement toast stays on screen. */
+const TOAST_DURATION_MS = 3000;
 
 export class GameUI {
   private container!: HTMLElement;
   private scoreElement!: HTMLElement;
   private livesElement!: HTMLElement;
   private speedElement!: HTMLElement;
+  private targetElement!: HTMLElement;
+  private powerUpsElement!: HTMLElement;
   private startButton!: HTMLElement;
   private pauseButton!: HTMLElement;
   private gameOverScreen!: HTMLElement;
   private instructionsScreen!: HTMLElement;
+  private challengeInfoElement!: HTMLElement;
+  private collectibleValuesElement!: HTMLElement;
+  private statsButton!: HTMLElement;
+  private achievementsButton!: HTMLElement;
+  private settingsButton!: HTMLElement;
+  private panelScreen!: HTMLElement;
+  private panelTitle!: HTMLElement;
+  private panelContent!: HTMLElement;
+  private toastElement!: HTMLElement;
+  private toastQueue: { achievement: Achievement; pending: boolean }[] = [];
+  private toastTimer?: number;
   private finalScoreElement!: HTMLElement;
+  private scoreResultElement!: HTMLElement;
+  private challengeForm!: HTMLFormElement;
+  private challengeInput!: HTMLInputElement;
+  private challengeMessageElement!: HTMLElement;
+  /** Tap zones of the mobile controls overlay; only created on mobile devices. */
+  private touchZones?: Record<TouchControl, HTMLElement>;
 
   constructor() {
     this.createUI();
@@ -53,9 +125,27 @@ export class GameUI {
     this.speedElement = document.createElement('div');
     this.speedElement.textContent = 'Speed: 10';
 
+    // Score to beat while an incoming challenge is being played
+    this.targetElement = document.createElement('div');
+    this.targetElement.style.cssText = `
+      color: #ffdd00;
+      font-weight: bold;
+      display: none;
+    `;
+
+    // Power-ups and pickup effects in progress, each with the seconds it has left
+    this.powerUpsElement = document.createElement('div');
+    this.powerUpsElement.style.cssText = `
+      color: #66ccff;
+      font-weight: bold;
+      display: none;
+    `;
+
     statsContainer.appendChild(this.scoreElement);
     statsContainer.appendChild(this.livesElement);
     statsContainer.appendChild(this.speedElement);
+    statsContainer.appendChild(this.targetElement);
+    statsContainer.appendChild(this.powerUpsElement);
 
     // Control buttons
     const buttonContainer = document.createElement('div');
@@ -94,18 +184,110 @@ export class GameUI {
       <h2 style="color: #ff6b35; margin-bottom: 15px; font-size: 18px;">🪔 Diwali Runner</h2>
       <div style="margin-bottom: 15px; line-height: 1.4; font-size: 13px;">
         <p><strong>Controls:</strong></p>
-        <p>↑/Space: Jump | ←→/AD: Move</p>
-        <p>Mobile: Tap top to jump, bottom to move</p>
+        <p>↑/Space: Jump | ↓/S: Slide | ←→/AD: Move</p>
+        <p>Mobile: Tap top to jump, bottom to move or slide</p>
+        <p>Or swipe above the controls</p>
+        <p>Slide under torans, jump pits, dodge trucks</p>
+        <p>Cones break, but cost you points</p>
         <br>
         <p><strong>🎆 Collectibles:</strong></p>
-        <p>🪔 Diya: +25 | ✨ Sparkler: +15</p>
-        <p>🌸 Rangoli: +30 | 🪙 Coin: +10</p>
-        <p>💊 Health: Restore life</p>
+        <div data-collectible-values></div>
         <br>
         <p style="font-size: 12px;">Avoid obstacles and celebrate Diwali!</p>
       </div>
     `;
 
+    this.collectibleValuesElement = this.instructionsScreen.querySelector(
+      '[data-collectible-values]'
+    )!;
+    this.setCollectibles(DEFAULT_RUN_RULES);
+
+    this.challengeInfoElement = document.createElement('p');
+    this.challengeInfoElement.style.cssText = `
+      display: none;
+      color: #ffaa00;
+      margin-bottom: 12px;
+    `;
+
+    const menuButtons = document.createElement('div');
+    menuButtons.style.cssText = `
+      display: flex;
+      justify-content: center;
+      gap: 10px;
+    `;
+
+    this.statsButton = this.createButton('📊 My Stats', '#6a5acd');
+    this.achievementsButton = this.createButton('🏆 Achievements', '#c9a227');
+    this.settingsButton = this.createButton('⚙️', '#555555');
+    this.settingsButton.title = 'Settings';
+    menuButtons.appendChild(this.statsButton);
+    menuButtons.appendChild(this.achievementsButton);
+    menuButtons.appendChild(this.settingsButton);
+
+    this.instructionsScreen.appendChild(this.challengeInfoElement);
+    this.instructionsScreen.appendChild(menuButtons);
+
+    // Panel for lifetime stats and the achievements gallery, opened from the instructions screen
+    this.panelScreen = document.createElement('div');
+    this.panelScreen.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.9);
+      padding: 20px;
+      border-radius: 12px;
+      text-align: center;
+      min-width: 260px;
+      max-width: 320px;
+      display: none;
+      pointer-events: auto;
+      font-size: 14px;
+    `;
+
+    this.panelTitle = document.createElement('h2');
+    this.panelTitle.style.cssText = `
+      color: #ff6b35;
+      margin-bottom: 15px;
+      font-size: 18px;
+    `;
+
+    this.panelContent = document.createElement('div');
+    this.panelContent.style.cssText = `
+      max-height: 60vh;
+      overflow-y: auto;
+      margin-bottom: 15px;
+      line-height: 1.6;
+      font-size: 13px;
+      text-align: left;
+    `;
+
+    const closePanelButton = this.createButton('Back', '#ffaa00');
+    closePanelButton.addEventListener('click', () => {
+      this.hidePanel();
+      this.showInstructions();
+    });
+
+    this.panelScreen.appendChild(this.panelTitle);
+    this.panelScreen.appendChild(this.panelContent);
+    this.panelScreen.appendChild(closePanelButton);
+
+    // Achievement unlock toast
+    this.toastElement = document.createElement('div');
+    this.toastElement.style.cssText = `
+      position: absolute;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: linear-gradient(45deg, #ff6b35, #ffaa00);
+      padding: 10px 18px;
+      border-radius: 10px;
+      box-shadow: 0 4px 15px rgba(255, 107, 53, 0.5);
+      text-align: center;
+      font-size: 14px;
+      display: none;
+    `;
+
     // Game over screen
     this.gameOverScreen = document.createElement('div');
     this.gameOverScreen.style.cssText = `
@@ -129,6 +311,45 @@ export class GameUI {
       margin: 10px 0;
     `;
 
+    this.scoreResultElement = document.createElement('p');
+    this.scoreResultElement.style.cssText = `
+      min-height: 1.4em;
+      color: #ffaa00;
+      margin-bottom: 12px;
+    `;
+
+    // Challenge another Redditor to beat this run; shown once the score is saved
+    this.challengeForm = document.createElement('form');
+    this.challengeForm.style.cssText = `
+      display: none;
+      gap: 8px;
+      justify-content: center;
+      margin-bottom: 8px;
+    `;
+
+    this.challengeInput = document.createElement('input');
+    this.challengeInput.type = 'text';
+    this.challengeInput.placeholder = 'u/username';
+    this.challengeInput.maxLength = 22;
+    this.challengeInput.style.cssText = `
+      width: 130px;
+      padding: 8px;
+      border: none;
+      border-radius: 6px;
+      font-size: 14px;
+    `;
+
+    const challengeButton = this.createButton('⚔️ Challenge', '#ff6b35');
+    challengeButton.setAttribute('type', 'submit');
+    this.challengeForm.append(this.challengeInput, challengeButton);
+
+    this.challengeMessageElement = document.createElement('p');
+    this.challengeMessageElement.style.cssText = `
+      min-height: 1.4em;
+      margin: 0 0 12px 0;
+      font-size: 13px;
+    `;
+
     const restartButton = this.createButton('Play Again', '#00ff88');
     restartButton.addEventListener('click', () => {
       this.hideGameOver();
@@ -143,9 +364,12 @@ export class GameUI {
       margin: 0 0 10px 0;
       color: #ff6b35;
     `;
-    
+
     this.gameOverScreen.appendChild(gameOverTitle);
     this.gameOverScreen.appendChild(this.finalScoreElement);
+    this.gameOverScreen.appendChild(this.scoreResultElement);
+    this.gameOverScreen.appendChild(this.challengeForm);
+    this.gameOverScreen.appendChild(this.challengeMessageElement);
     this.gameOverScreen.appendChild(restartButton);
 
     // Mobile controls overlay
@@ -196,7 +420,7 @@ export class GameUI {
 
       const leftArea = document.createElement('div');
       leftArea.style.cssText = `
-        width: 50%;
+        width: 35%;
         height: 100%;
         background: rgba(255, 170, 0, 0.1);
         border: 2px dashed rgba(255, 170, 0, 0.3);
@@ -208,9 +432,24 @@ export class GameUI {
       `;
       leftArea.textContent = '← LEFT';
 
+      // Swipes can't start on the overlay, so sliding needs a zone of its own
+      const slideArea = document.createElement('div');
+      slideArea.style.cssText = `
+        width: 30%;
+        height: 100%;
+        background: rgba(100, 149, 237, 0.1);
+        border: 2px dashed rgba(100, 149, 237, 0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 16px;
+        color: rgba(255, 255, 255, 0.7);
+      `;
+      slideArea.textContent = '↓ SLIDE';
+
       const rightArea = document.createElement('div');
       rightArea.style.cssText = `
-        width: 50%;
+        width: 35%;
         height: 100%;
         background: rgba(255, 170, 0, 0.1);
         border: 2px dashed rgba(255, 170, 0, 0.3);
@@ -222,7 +461,10 @@ export class GameUI {
       `;
       rightArea.textContent = 'RIGHT →';
 
+      this.touchZones = { jump: jumpArea, left: leftArea, slide: slideArea, right: rightArea };
+
       moveArea.appendChild(leftArea);
+      moveArea.appendChild(slideArea);
       moveArea.appendChild(rightArea);
       mobileControls.appendChild(jumpArea);
       mobileControls.appendChild(moveArea);
@@ -232,6 +474,8 @@ export class GameUI {
     this.container.appendChild(statsContainer);
     this.container.appendChild(buttonContainer);
     this.container.appendChild(this.instructionsScreen);
+    this.container.appendChild(this.panelScreen);
+    this.container.appendChild(this.toastElement);
     this.container.appendChild(this.gameOverScreen);
     this.container.appendChild(mobileControls);
 
@@ -276,13 +520,55 @@ export class GameUI {
     onStart: () => void;
     onPause: () => void;
     onRestart: () => void;
+    onShowStats: () => void;
+    onShowAchievements: () => void;
+    onShowSettings: () => void;
+    onChallenge: (username: string) => void;
+    onTouchControl: (control: TouchControl) => void;
   }): void {
     this.startButton.addEventListener('click', () => {
       this.hideInstructions();
+      this.hidePanel();
       this.showGameUI();
       callbacks.onStart();
     });
 
+    this.statsButton.addEventListener('click', () => {
+      this.hideInstructions();
+      this.showStatsMessage('Loading stats...');
+      callbacks.onShowStats();
+    });
+
+    this.achievementsButton.addEventListener('click', () => {
+      this.hideInstructions();
+      callbacks.onShowAchievements();
+    });
+
+    this.settingsButton.addEventListener('click', () => {
+      this.hideInstructions();
+      this.showSettingsMessage('Loading settings...');
+      callbacks.onShowSettings();
+    });
+
+    this.challengeForm.addEventListener('submit', (event) => {
+      event.preventDefault();
+      const username = this.challengeInput.value.trim();
+      if (username) {
+        this.setChallengeMessage('Sending challenge...');
+        callbacks.onChallenge(username);
+      }
+    });
+
+    // A tap on the overlay is its own input, not the start of a swipe on the page
+    for (const [control, zone] of Object.entries(this.touchZones ?? {})) {
+      zone.addEventListener('touchstart', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        callbacks.onTouchControl(control as TouchControl);
+      });
+      zone.addEventListener('touchend', (event) => event.stopPropagation());
+    }
+
     this.pauseButton.addEventListener('click', callbacks.onPause);
 
     document.addEventListener('game-restart', callbacks.onRestart);
@@ -292,6 +578,18 @@ export class GameUI {
     this.scoreElement.textContent = `🎆 Score: ${gameState.score}`;
     this.livesElement.textContent = `❤️ Lives: ${gameState.lives}`;
     this.speedElement.textContent = `⚡ Speed: ${Math.floor(gameState.speed)}`;
+    const effectLines = [
+      ...gameState.powerUps.map(formatPowerUp),
+      ...gameState.pickupEffects.map(formatPickupEffect),
+    ];
+    this.powerUpsElement.replaceChildren(
+      ...effectLines.map((text) => {
+        const line = document.createElement('div');
+        line.textContent = text;
+        return line;
+      })
+    );
+    this.powerUpsElement.style.display = effectLines.length > 0 ? 'block' : 'none';
 
     if (gameState.gameOver) {
       this.showGameOver(gameState.score);
@@ -301,6 +599,204 @@ export class GameUI {
     this.pauseButton.textContent = gameState.isPaused ? 'Resume' : 'Pause';
   }
 
+  show(): void {
+    this.container.style.display = 'block';
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  /** Lists the collectibles that can spawn, two to a line, with the points each is worth. */
+  setCollectibles({
+    allowedCollectibles,
+    collectibleValues,
+  }: Pick<RunRules, 'allowedCollectibles' | 'collectibleValues'>): void {
+    const entries = allowedCollectibles.map(
+      (type) => `${COLLECTIBLE_NAMES[type]}: +${collectibleValues[type]}`
+    );
+    this.collectibleValuesElement.replaceChildren(
+      ...Array.from({ length: Math.ceil(entries.length / 2) }, (_, line) => {
+        const element = document.createElement('p');
+        element.textContent = entries.slice(line * 2, line * 2 + 2).join(' | ');
+        return element;
+      })
+    );
+  }
+
+  setChallengeInfo(text: string): void {
+    this.challengeInfoElement.textContent = text;
+    this.challengeInfoElement.style.display = text ? 'block' : 'none';
+  }
+
+  setScoreResult(text: string): void {
+    this.scoreResultElement.textContent = text;
+  }
+
+  /** Shows the score an incoming challenge asks the player to beat, or hides it. */
+  setTargetScore(target?: { username: string; score: number }): void {
+    this.targetElement.textContent = target ? `🎯 Beat u/${target.username}: ${target.score}` : '';
+    this.targetElement.style.display = target ? 'block' : 'none';
+  }
+
+  showChallengeForm(): void {
+    this.challengeInput.value = '';
+    this.challengeForm.style.display = 'flex';
+  }
+
+  setChallengeMessage(text: string): void {
+    this.challengeMessageElement.textContent = text;
+  }
+
+  private showPanel(title: string, content: HTMLElement[]): void {
+    this.panelTitle.textContent = title;
+    this.panelContent.replaceChildren(...content);
+    this.panelScreen.style.display = 'block';
+  }
+
+  private createRow(label: string, value: string): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      gap: 16px;
+    `;
+    const labelElement = document.createElement('span');
+    labelElement.textContent = label;
+    const valueElement = document.createElement('strong');
+    valueElement.textContent = value;
+    row.append(labelElement, valueElement);
+    return row;
+  }
+
+  showStats(stats: PlayerStats): void {
+    const rows: [string, string][] = [
+      ['🏃 Runs played', stats.runsPlayed.toLocaleString()],
+      ['📏 Total distance', `${stats.totalDistance.toLocaleString()} m`],
+      ['⏱️ Time survived', formatDuration(stats.totalTimeSurvivedMs)],
+      ['💥 Obstacles hit', stats.obstaclesHit.toLocaleString()],
+      ...Object.entries(COLLECTIBLE_LABELS).map(([type, label]): [string, string] => [
+        label,
+        stats.collectibles[type as keyof PlayerStats['collectibles']].toLocaleString(),
+      ]),
+    ];
+
+    this.showPanel(
+      '📊 Lifetime Stats',
+      rows.map(([label, value]) => this.createRow(label, value))
+    );
+  }
+
+  showStatsMessage(message: string): void {
+    const messageElement = document.createElement('p');
+    messageElement.textContent = message;
+    messageElement.style.textAlign = 'center';
+    this.showPanel('📊 Lifetime Stats', [messageElement]);
+  }
+
+  showAchievements(statuses: AchievementStatus[]): void {
+    const unlockedCount = statuses.filter(({ unlockedAt }) => unlockedAt !== undefined).length;
+
+    const cards = statuses.map(({ achievement, unlockedAt, progress }) => {
+      const unlocked = unlockedAt !== undefined;
+      const card = document.createElement('div');
+      card.style.cssText = `
+        margin-bottom: 10px;
+        opacity: ${unlocked ? 1 : 0.5};
+      `;
+
+      const value = unlocked
+        ? new Date(unlockedAt).toLocaleDateString()
+        : progress !== undefined
+          ? `${progress.toLocaleString()} / ${achievement.goal.target.toLocaleString()}`
+          : '🔒';
+      const description = document.createElement('div');
+      description.textContent = achievement.description;
+      description.style.fontSize = '12px';
+
+      card.append(this.createRow(`${achievement.icon} ${achievement.title}`, value), description);
+      return card;
+    });
+
+    this.showPanel(`🏆 Achievements (${unlockedCount}/${statuses.length})`, cards);
+  }
+
+  /** Shows the player's settings; `onChange` receives each change as it is made. */
+  showSettings(
+    settings: PlayerSettings,
+    onChange: (update: Partial<PlayerSettings>) => void
+  ): void {
+    const label = document.createElement('label');
+    label.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      cursor: pointer;
+    `;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = settings.scoreCardComments;
+    checkbox.addEventListener('change', () => onChange({ scoreCardComments: checkbox.checked }));
+
+    const text = document.createElement('span');
+    text.textContent = 'Comment a score card on the post when I take #1';
+
+    label.append(checkbox, text);
+    this.showPanel('⚙️ Settings', [label]);
+  }
+
+  showSettingsMessage(message: string): void {
+    const messageElement = document.createElement('p');
+    messageElement.textContent = message;
+    messageElement.style.textAlign = 'center';
+    this.showPanel('⚙️ Settings', [messageElement]);
+  }
+
+  hidePanel(): void {
+    this.panelScreen.style.display = 'none';
+  }
+
+  /**
+   * Queues an achievement toast; toasts are shown one at a time. A pending one was
+   * reached mid-run and only unlocks once the server accepts the run.
+   */
+  showAchievementToast(achievement: Achievement, pending = false): void {
+    this.toastQueue.push({ achievement, pending });
+    if (this.toastTimer === undefined) {
+      this.showNextToast();
+    }
+  }
+
+  private showNextToast(): void {
+    const toast = this.toastQueue.shift();
+    if (!toast) {
+      this.toastElement.style.display = 'none';
+      this.toastTimer = undefined;
+      return;
+    }
+
+    const heading = document.createElement('div');
+    heading.textContent = toast.pending
+      ? '🏆 Achievement reached · saved with your score'
+      : '🏆 Achievement unlocked';
+    heading.style.cssText = `
+      font-size: 11px;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+    `;
+    const title = document.createElement('div');
+    title.textContent = `${toast.achievement.icon} ${toast.achievement.title}`;
+    title.style.cssText = `
+      font-size: 16px;
+      font-weight: bold;
+    `;
+
+    this.toastElement.replaceChildren(heading, title);
+    this.toastElement.style.display = 'block';
+    this.toastTimer = window.setTimeout(() => this.showNextToast(), TOAST_DURATION_MS);
+  }
+
   showInstructions(): void {
     this.instructionsScreen.style.display = 'block';
   }
@@ -321,6 +817,9 @@ export class GameUI {
 
   showGameOver(finalScore: number): void {
     this.finalScoreElement.textContent = `Final Score: ${finalScore}`;
+    this.scoreResultElement.textContent = '';
+    this.challengeForm.style.display = 'none';
+    this.challengeMessageElement.textContent = '';
     this.gameOverScreen.style.display = 'block';
     this.hideGameUI();
   }
@@ -330,6 +829,7 @@ export class GameUI {
   }
 
   dispose(): void {
+    window.clearTimeout(this.toastTimer);
     if (this.container && this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
@@ -6,7 +6,8 @@ export default defineConfig({
     emptyOutDir: true,
     rollupOptions: {
       input: {
-        main: './index.html'
+        main: './index.html',
+        analytics: './analytics.html'
       }
     }
   },
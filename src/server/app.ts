@@ -0,0 +1,40 @@
+import express from 'express';
+import { analyticsRouter } from './routes/analytics';
+import { achievementsRouter } from './routes/achievements';
+import { challengesRouter } from './routes/challenges';
+import { ghostRouter } from './routes/ghost';
+import { internalRouter } from './routes/internal';
+import { leaderboardRouter } from './routes/leaderboard';
+import { moderationRouter } from './routes/moderation';
+import { postRouter } from './routes/post';
+import { scoreRouter } from './routes/score';
+import { settingsRouter } from './routes/settings';
+import { statsRouter } from './routes/stats';
+import { tournamentRouter } from './routes/tournament';
+
+/** Builds the Express app with every route, shared by the Devvit and local servers. */
+export const createApp = () => {
+  const app = express();
+
+  // Middleware for JSON body parsing
+  app.use(express.json());
+  // Middleware for URL-encoded body parsing
+  app.use(express.urlencoded({ extended: true }));
+  // Middleware for plain text body parsing
+  app.use(express.text());
+
+  app.use(postRouter);
+  app.use(scoreRouter);
+  app.use(statsRouter);
+  app.use(achievementsRouter);
+  app.use(ghostRouter);
+  app.use(challengesRouter);
+  app.use(tournamentRouter);
+  app.use(analyticsRouter);
+  app.use(settingsRouter);
+  app.use(leaderboardRouter);
+  app.use(internalRouter);
+  app.use(moderationRouter);
+
+  return app;
+};
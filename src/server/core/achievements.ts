@@ -0,0 +1,41 @@
+import { redis } from '@devvit/web/server';
+import { getAchievement, reachedAchievements } from '../../shared/achievements';
+import { RunSummary } from '../../shared/simulation/run-simulation';
+import { PlayerStats, UnlockedAchievement } from '../../shared/types/api';
+
+/** Hash of achievement id to the time the user unlocked it. */
+export const playerAchievementsKey = (userId: string) => `achievements:player:${userId}`;
+
+export const getUnlockedAchievements = async (userId: string): Promise<UnlockedAchievement[]> => {
+  const stored = await redis.hGetAll(playerAchievementsKey(userId));
+  return (
+    Object.entries(stored)
+      // Achievements removed from the game stay stored but are no longer reported
+      .filter(([id]) => getAchievement(id) !== undefined)
+      .map(([id, unlockedAt]) => ({ id, unlockedAt: Number(unlockedAt) }))
+      .sort((a, b) => a.unlockedAt - b.unlockedAt)
+  );
+};
+
+/**
+ * Unlocks every achievement a verified run earned. `lifetime` must already include
+ * the run. Returns only the achievements that were not unlocked before.
+ */
+export const unlockAchievements = async (
+  userId: string,
+  run: RunSummary,
+  lifetime: PlayerStats
+): Promise<UnlockedAchievement[]> => {
+  const key = playerAchievementsKey(userId);
+  const unlockedAt = Date.now();
+
+  const results = await Promise.all(
+    reachedAchievements(run, lifetime).map(async ({ id }) => {
+      // hSetNX keeps the original unlock time and tells us whether this run was first
+      const added = await redis.hSetNX(key, id, String(unlockedAt));
+      return added > 0 ? { id, unlockedAt } : undefined;
+    })
+  );
+
+  return results.filter((unlock): unlock is UnlockedAchievement => unlock !== undefined);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { completeChallenge, createChallenge } from './challenge';
+
+const run = { seed: 1234, score: 500 };
+
+describe('createChallenge', () => {
+  it('refuses a second open challenge to the same opponent on the same post', async () => {
+    const first = await createChallenge('t3_dedupe', 'Alice', 'bob', run);
+
+    expect(first).toBeDefined();
+    expect(await createChallenge('t3_dedupe', 'alice', 'Bob', run)).toBeUndefined();
+    expect(await createChallenge('t3_other', 'Alice', 'bob', run)).toBeDefined();
+    expect(await createChallenge('t3_dedupe', 'Alice', 'carol', run)).toBeDefined();
+  });
+
+  it('allows a new challenge once the open one has been played', async () => {
+    const first = await createChallenge('t3_replay', 'Alice', 'bob', run);
+    await completeChallenge(first!, 600);
+
+    expect(await createChallenge('t3_replay', 'Alice', 'bob', run)).toBeDefined();
+  });
+});
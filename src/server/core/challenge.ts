@@ -0,0 +1,210 @@
+import { randomUUID } from 'node:crypto';
+import { context, reddit, redis } from '@devvit/web/server';
+import { Challenge } from '../../shared/types/api';
+import { parseUsername } from './moderation';
+
+/** Challenges and their results are kept for a month. */
+const CHALLENGE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** A run can be used for a challenge until the next day. */
+const CHALLENGE_RUN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const challengeKey = (challengeId: string) => `challenge:${challengeId}`;
+
+/** Hash of open challenge id to creation time, per challenged player and post. */
+const incomingChallengesKey = (postId: string, username: string) =>
+  `challenges:incoming:${postId}:${username.toLowerCase()}`;
+
+/** Held while `challenger` has an open challenge to `opponent` on a post. */
+const openChallengeKey = (postId: string, challenger: string, opponent: string) =>
+  `challenges:open:${postId}:${challenger.toLowerCase()}:${opponent.toLowerCase()}`;
+
+/** The player's last verified run on a post, which their next challenge is sent with. */
+const challengeRunKey = (postId: string, userId: string) =>
+  `challenges:last-run:${postId}:${userId}`;
+
+/** Reddit usernames are 3-20 letters, digits, dashes or underscores. */
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,20}$/;
+
+export interface ChallengeRun {
+  seed: number;
+  score: number;
+}
+
+/** The opponent named in a challenge request, or undefined for anything that cannot be a username. */
+export const parseOpponentName = (value: unknown): string | undefined => {
+  const username = parseUsername(value);
+  return username && USERNAME_PATTERN.test(username) ? username : undefined;
+};
+
+const postLink = (postId: string): string =>
+  `https://reddit.com/r/${context.subredditName}/comments/${postId.replace(/^t3_/, '')}`;
+
+const expiresAt = (ms: number) => new Date(Date.now() + ms);
+
+const saveChallenge = async (challenge: Challenge): Promise<void> => {
+  await redis.set(challengeKey(challenge.id), JSON.stringify(challenge), {
+    expiration: new Date(challenge.createdAt + CHALLENGE_TTL_MS),
+  });
+};
+
+/** Remembers a verified run so the player can challenge someone to beat it. */
+export const recordChallengeRun = async (
+  postId: string,
+  userId: string,
+  run: ChallengeRun
+): Promise<void> => {
+  await redis.set(challengeRunKey(postId, userId), JSON.stringify(run), {
+    expiration: expiresAt(CHALLENGE_RUN_TTL_MS),
+  });
+};
+
+export const getChallengeRun = async (
+  postId: string,
+  userId: string
+): Promise<ChallengeRun | undefined> => {
+  const stored = await redis.get(challengeRunKey(postId, userId));
+  return stored ? (JSON.parse(stored) as ChallengeRun) : undefined;
+};
+
+export const getChallenge = async (challengeId: string): Promise<Challenge | undefined> => {
+  const stored = await redis.get(challengeKey(challengeId));
+  return stored ? (JSON.parse(stored) as Challenge) : undefined;
+};
+
+/**
+ * Stores a new open challenge and adds it to the opponent's incoming challenges.
+ * Returns undefined, without storing anything, while the challenger already has
+ * an open challenge to the same opponent on the post.
+ */
+export const createChallenge = async (
+  postId: string,
+  challenger: string,
+  opponent: string,
+  { seed, score }: ChallengeRun
+): Promise<Challenge | undefined> => {
+  const id = randomUUID();
+  const claimed = await redis.set(openChallengeKey(postId, challenger, opponent), id, {
+    nx: true,
+    expiration: expiresAt(CHALLENGE_TTL_MS),
+  });
+  if (!claimed) {
+    return undefined;
+  }
+
+  const challenge: Challenge = {
+    id,
+    postId,
+    challenger,
+    opponent,
+    seed,
+    targetScore: score,
+    createdAt: Date.now(),
+  };
+
+  await saveChallenge(challenge);
+  const incomingKey = incomingChallengesKey(postId, opponent);
+  await redis.hSet(incomingKey, { [challenge.id]: String(challenge.createdAt) });
+  await redis.expire(incomingKey, CHALLENGE_TTL_MS / 1000);
+  return challenge;
+};
+
+/** Open challenges sent to `username` on a post, oldest first. */
+export const getIncomingChallenges = async (
+  postId: string,
+  username: string
+): Promise<Challenge[]> => {
+  const incomingKey = incomingChallengesKey(postId, username);
+  const ids = Object.entries(await redis.hGetAll(incomingKey))
+    .sort(([, a], [, b]) => Number(a) - Number(b))
+    .map(([id]) => id);
+
+  const challenges: Challenge[] = [];
+  for (const id of ids) {
+    const challenge = await getChallenge(id);
+    if (challenge && !challenge.result) {
+      challenges.push(challenge);
+    } else {
+      // Expired or already played
+      await redis.hDel(incomingKey, [id]);
+    }
+  }
+  return challenges;
+};
+
+/** Records the opponent's score on an open challenge and closes it. */
+export const completeChallenge = async (
+  challenge: Challenge,
+  score: number
+): Promise<Challenge> => {
+  const completed: Challenge = {
+    ...challenge,
+    result: {
+      score,
+      winner: score > challenge.targetScore ? challenge.opponent : challenge.challenger,
+      completedAt: Date.now(),
+    },
+  };
+
+  await saveChallenge(completed);
+  await redis.hDel(incomingChallengesKey(challenge.postId, challenge.opponent), [challenge.id]);
+  await redis.del(openChallengeKey(challenge.postId, challenge.challenger, challenge.opponent));
+  return completed;
+};
+
+/** Messages the challenged player a link to the post. */
+export const notifyChallengeCreated = async ({
+  postId,
+  challenger,
+  opponent,
+  targetScore,
+}: Challenge): Promise<void> => {
+  await reddit.sendPrivateMessage({
+    to: opponent,
+    subject: `🪔 u/${challenger} challenged you to a Diwali Run`,
+    text: [
+      `u/${challenger} scored **${targetScore.toLocaleString('en-US')}** and thinks you can't beat it.`,
+      '',
+      `[Open the game](${postLink(postId)}) to play the exact same run and take the challenge.`,
+    ].join('\n'),
+  });
+};
+
+/** Messages both players how a completed challenge ended. */
+export const notifyChallengeResult = async ({
+  postId,
+  challenger,
+  opponent,
+  targetScore,
+  result,
+}: Challenge): Promise<void> => {
+  if (!result) return;
+
+  const scores = `u/${challenger}: **${targetScore.toLocaleString('en-US')}** · u/${opponent}: **${result.score.toLocaleString('en-US')}**`;
+  const link = `[Play again](${postLink(postId)})`;
+  const messages = [
+    {
+      to: challenger,
+      subject:
+        result.winner === challenger
+          ? `🏆 You defended your score against u/${opponent}`
+          : `💥 u/${opponent} beat your challenge`,
+    },
+    {
+      to: opponent,
+      subject:
+        result.winner === opponent
+          ? `🏆 You beat u/${challenger}'s challenge`
+          : `💥 u/${challenger}'s score held up`,
+    },
+  ];
+
+  // One player's failed message must not stop the other's
+  for (const { to, subject } of messages) {
+    try {
+      await reddit.sendPrivateMessage({ to, subject, text: [scores, '', link].join('\n') });
+    } catch (error) {
+      console.error(`Error sending challenge result to ${to}: ${error}`);
+    }
+  }
+};
@@ -0,0 +1,44 @@
+import { redis } from '@devvit/web/server';
+import { DEFAULT_POST_DATA } from '../../shared/post-data';
+import { seedFromString } from '../../shared/simulation/random';
+import { GamePostData } from '../../shared/types/post';
+import { createPost } from './post';
+import { getPeriodId } from './subreddit-leaderboard';
+
+/** Maps a challenge date to the post created for it, so each day gets exactly one post. */
+const dailyChallengePostKey = (challengeDate: string) => `daily-challenge:${challengeDate}:post`;
+
+/** Seed shared by every run of the daily challenge on `challengeDate`. */
+export const getDailySeed = (challengeDate: string): number =>
+  seedFromString(`daily-challenge:${challengeDate}`);
+
+export interface DailyChallengeResult {
+  challengeDate: string;
+  postId: string;
+  /** False when today's post already existed. */
+  created: boolean;
+}
+
+/** Creates today's "Daily Diwali Run" post unless one has already been created. */
+export const createDailyChallengePost = async (
+  now: Date = new Date()
+): Promise<DailyChallengeResult> => {
+  const challengeDate = getPeriodId('daily', now);
+  const key = dailyChallengePostKey(challengeDate);
+
+  const existingPostId = await redis.get(key);
+  if (existingPostId) {
+    return { challengeDate, postId: existingPostId, created: false };
+  }
+
+  const postData: GamePostData = {
+    ...DEFAULT_POST_DATA,
+    mode: 'daily',
+    seed: getDailySeed(challengeDate),
+    challengeDate,
+  };
+  const post = await createPost({ title: `Daily Diwali Run – ${challengeDate}`, postData });
+  await redis.set(key, post.id);
+
+  return { challengeDate, postId: post.id, created: true };
+};
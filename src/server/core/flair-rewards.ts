@@ -0,0 +1,190 @@
+import { context, reddit, redis } from '@devvit/web/server';
+import { AppSettings, getAppSettings } from './install';
+import { getTopEntries } from './leaderboard';
+import { subredditLeaderboardKey } from './subreddit-leaderboard';
+
+/** Hash of username to the reward they hold, as a JSON `FlairHolding`. */
+const FLAIR_HOLDERS_KEY = 'flair-rewards:holders';
+
+/** Id of the last weekly period flair was awarded for. */
+const AWARDED_PERIOD_KEY = 'flair-rewards:period';
+
+export type FlairTier = 'top3' | 'top10';
+
+/** Tiers from best to worst, with the lowest rank that still earns each. */
+const FLAIR_TIERS: readonly { tier: FlairTier; maxRank: number }[] = [
+  { tier: 'top3', maxRank: 3 },
+  { tier: 'top10', maxRank: 10 },
+];
+
+const LOWEST_REWARDED_RANK = FLAIR_TIERS[FLAIR_TIERS.length - 1]!.maxRank;
+
+export interface FlairAwardResult {
+  periodId: string;
+  /** False when flair had already been awarded for this period or a later one. */
+  awarded: boolean;
+  assigned: string[];
+  removed: string[];
+}
+
+interface SavedFlair {
+  text?: string;
+  cssClass?: string;
+}
+
+interface FlairHolding {
+  tier: FlairTier;
+  /** Text the reward flair shows, to tell whether the user has changed it since. */
+  rewardText?: string;
+  /** Flair the user had before the reward, put back when it ends. */
+  previous?: SavedFlair;
+}
+
+const tierForRank = (rank: number): FlairTier | undefined =>
+  FLAIR_TIERS.find(({ maxRank }) => rank <= maxRank)?.tier;
+
+const flairForTier = (
+  settings: AppSettings,
+  tier: FlairTier
+): { text?: string; flairTemplateId?: string } | undefined => {
+  const text = settings[`${tier}FlairText`].trim();
+  const flairTemplateId = settings[`${tier}FlairTemplateId`].trim();
+  // A tier with neither text nor a template is switched off
+  if (!text && !flairTemplateId) {
+    return undefined;
+  }
+  return { text: text || undefined, flairTemplateId: flairTemplateId || undefined };
+};
+
+const getUserFlair = async (
+  subredditName: string,
+  username: string
+): Promise<SavedFlair | undefined> => {
+  const user = await reddit.getUserByUsername(username);
+  const flair = await user?.getUserFlairBySubreddit(subredditName);
+  if (!flair?.flairText && !flair?.flairCssClass) {
+    return undefined;
+  }
+  return { text: flair.flairText || undefined, cssClass: flair.flairCssClass || undefined };
+};
+
+/**
+ * Takes a reward flair away, putting back what the user had before. Flair the
+ * user has changed since the reward is theirs, so it stays.
+ */
+const endFlairReward = async (
+  subredditName: string,
+  username: string,
+  holding: FlairHolding
+): Promise<void> => {
+  const current = await getUserFlair(subredditName, username);
+  if (current?.text !== holding.rewardText) {
+    return;
+  }
+
+  if (holding.previous) {
+    await reddit.setUserFlair({ subredditName, username, ...holding.previous });
+  } else {
+    await reddit.removeUserFlair(subredditName, username);
+  }
+};
+
+/**
+ * Gives `username` the reward flair of `tier`, remembering the flair it replaces.
+ * A player who already holds a reward keeps the flair from before their first one.
+ */
+const giveFlairReward = async (
+  subredditName: string,
+  username: string,
+  reward: { text?: string; flairTemplateId?: string },
+  tier: FlairTier,
+  held: FlairHolding | undefined
+): Promise<FlairHolding> => {
+  const current = await getUserFlair(subredditName, username);
+  const previous = held && current?.text === held.rewardText ? held.previous : current;
+
+  await reddit.setUserFlair({ subredditName, username, ...reward });
+  // A template-only reward shows the template's text, which only Reddit knows
+  const rewardText = reward.text ?? (await getUserFlair(subredditName, username))?.text;
+  return { tier, rewardText, previous };
+};
+
+/**
+ * Gives the top players of a closed weekly period their reward flair and takes it
+ * away from last week's holders who did not place again, restoring the flair they
+ * had before. Standings come from the scores stored for that period. Each period
+ * is only awarded once.
+ */
+export const awardWeeklyFlair = async (periodId: string): Promise<FlairAwardResult> => {
+  const lastAwarded = await redis.get(AWARDED_PERIOD_KEY);
+  // ISO week ids sort chronologically as strings
+  if (lastAwarded && lastAwarded >= periodId) {
+    return { periodId, awarded: false, assigned: [], removed: [] };
+  }
+
+  const { subredditName } = context;
+  const [settings, standings, storedHolders] = await Promise.all([
+    getAppSettings(),
+    getTopEntries(subredditLeaderboardKey('weekly', periodId), LOWEST_REWARDED_RANK),
+    redis.hGetAll(FLAIR_HOLDERS_KEY),
+  ]);
+  const previousHolders = Object.fromEntries(
+    Object.entries(storedHolders).map(([username, holding]) => [
+      username,
+      JSON.parse(holding) as FlairHolding,
+    ])
+  );
+
+  const winners: Record<string, FlairTier> = {};
+  for (const { rank, username } of standings) {
+    const tier = tierForRank(rank);
+    if (tier && flairForTier(settings, tier)) {
+      winners[username] = tier;
+    }
+  }
+
+  // One failed user (deleted account, suspended, ...) must not block the others
+  const removed: string[] = [];
+  // Holders whose flair could not be restored stay tracked so next week retries them
+  const nextHolders: Record<string, string> = {};
+  for (const [username, holding] of Object.entries(previousHolders)) {
+    if (winners[username]) continue;
+    try {
+      await endFlairReward(subredditName, username, holding);
+      removed.push(username);
+    } catch (error) {
+      console.error(`Error removing reward flair from ${username}: ${error}`);
+      nextHolders[username] = JSON.stringify(holding);
+    }
+  }
+
+  const assigned: string[] = [];
+  for (const [username, tier] of Object.entries(winners)) {
+    const held = previousHolders[username];
+    try {
+      const holding = await giveFlairReward(
+        subredditName,
+        username,
+        flairForTier(settings, tier)!,
+        tier,
+        held
+      );
+      nextHolders[username] = JSON.stringify(holding);
+      assigned.push(username);
+    } catch (error) {
+      console.error(`Error giving ${tier} reward flair to ${username}: ${error}`);
+      // Their last reward may still be showing, so keep what it replaced
+      if (held) {
+        nextHolders[username] = JSON.stringify(held);
+      }
+    }
+  }
+
+  await redis.del(FLAIR_HOLDERS_KEY);
+  if (Object.keys(nextHolders).length > 0) {
+    await redis.hSet(FLAIR_HOLDERS_KEY, nextHolders);
+  }
+  await redis.set(AWARDED_PERIOD_KEY, periodId);
+
+  return { periodId, awarded: true, assigned, removed };
+};
@@ -0,0 +1,10 @@
+import { settings } from '@devvit/web/server';
+import { parseGameplaySettings } from '../../shared/post-data';
+import { GameplaySettings } from '../../shared/types/api';
+
+/**
+ * The install's gameplay settings. Read on every request rather than cached, so
+ * a moderator's change applies from the next run without a redeploy.
+ */
+export const getGameplaySettings = async (): Promise<GameplaySettings> =>
+  parseGameplaySettings(await settings.getAll<Record<string, unknown>>());
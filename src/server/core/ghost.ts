@@ -0,0 +1,35 @@
+import { redis } from '@devvit/web/server';
+import { RunRecord } from '../../shared/simulation/run-simulation';
+import { GameplaySettings, GhostRun } from '../../shared/types/api';
+
+/** JSON of the player's best verified run on one post. */
+const ghostRunKey = (postId: string, userId: string) => `ghost:${postId}:${userId}`;
+
+export const getGhostRun = async (
+  postId: string,
+  userId: string
+): Promise<GhostRun | undefined> => {
+  const stored = await redis.get(ghostRunKey(postId, userId));
+  return stored ? (JSON.parse(stored) as GhostRun) : undefined;
+};
+
+/**
+ * Keeps `run` as the player's ghost on `postId` when it beats their current one.
+ * Only pass runs that passed verification. Returns true when the ghost was replaced.
+ */
+export const saveGhostRun = async (
+  postId: string,
+  userId: string,
+  score: number,
+  run: RunRecord,
+  gameplay: GameplaySettings
+): Promise<boolean> => {
+  const current = await getGhostRun(postId, userId);
+  if (current && current.score >= score) {
+    return false;
+  }
+
+  const ghost: GhostRun = { score, run, gameplay };
+  await redis.set(ghostRunKey(postId, userId), JSON.stringify(ghost));
+  return true;
+};
@@ -0,0 +1,92 @@
+import { redis } from '@devvit/web/server';
+import { DEFAULT_LEADERBOARD_LIMIT, MAX_LEADERBOARD_LIMIT, parseLimit } from './leaderboard';
+import { createPost } from './post';
+
+/** Hash recording when the app was installed and which post it created. */
+const INSTALL_KEY = 'app:install';
+
+/** Hash of app-wide settings, seeded with defaults on install. */
+const APP_SETTINGS_KEY = 'app:settings';
+
+export interface AppSettings {
+  /** Number of entries a leaderboard returns when the client does not ask for a limit. */
+  leaderboardLimit: number;
+  /** User flair given to the top 3 of each weekly leaderboard. */
+  top3FlairText: string;
+  /** User flair template for the top 3; empty to set the text alone. */
+  top3FlairTemplateId: string;
+  /** User flair given to ranks 4 to 10 of each weekly leaderboard. */
+  top10FlairText: string;
+  /** User flair template for ranks 4 to 10; empty to set the text alone. */
+  top10FlairTemplateId: string;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  leaderboardLimit: DEFAULT_LEADERBOARD_LIMIT,
+  top3FlairText: '🪔 Diya Champion',
+  top3FlairTemplateId: '',
+  top10FlairText: '✨ Sparkler Star',
+  top10FlairTemplateId: '',
+};
+
+export interface InstallResult {
+  postId: string;
+  /** False when the app had already been bootstrapped and nothing was created. */
+  created: boolean;
+}
+
+/** Writes default settings for any setting that has not been set yet. */
+const initializeAppSettings = async (): Promise<void> => {
+  const existing = await redis.hGetAll(APP_SETTINGS_KEY);
+  const missing = Object.fromEntries(
+    Object.entries(DEFAULT_APP_SETTINGS)
+      .filter(([name]) => existing[name] === undefined)
+      .map(([name, value]) => [name, String(value)])
+  );
+  if (Object.keys(missing).length > 0) {
+    await redis.hSet(APP_SETTINGS_KEY, missing);
+  }
+};
+
+export const getAppSettings = async (): Promise<AppSettings> => {
+  const stored = await redis.hGetAll(APP_SETTINGS_KEY);
+  return {
+    leaderboardLimit: parseLimit(
+      stored.leaderboardLimit,
+      DEFAULT_APP_SETTINGS.leaderboardLimit,
+      MAX_LEADERBOARD_LIMIT
+    ),
+    top3FlairText: stored.top3FlairText ?? DEFAULT_APP_SETTINGS.top3FlairText,
+    top3FlairTemplateId: stored.top3FlairTemplateId ?? DEFAULT_APP_SETTINGS.top3FlairTemplateId,
+    top10FlairText: stored.top10FlairText ?? DEFAULT_APP_SETTINGS.top10FlairText,
+    top10FlairTemplateId: stored.top10FlairTemplateId ?? DEFAULT_APP_SETTINGS.top10FlairTemplateId,
+  };
+};
+
+export const updateAppSettings = async (update: Partial<AppSettings>): Promise<void> => {
+  const fields = Object.fromEntries(
+    Object.entries(update).map(([name, value]) => [name, String(value)])
+  );
+  if (Object.keys(fields).length > 0) {
+    await redis.hSet(APP_SETTINGS_KEY, fields);
+  }
+};
+
+/**
+ * Bootstraps a subreddit: seeds default settings, then creates and stickies the
+ * first game post. Safe to call again on reinstall, it only fills in what is missing.
+ */
+export const bootstrapInstall = async (): Promise<InstallResult> => {
+  await initializeAppSettings();
+
+  const existingPostId = await redis.hGet(INSTALL_KEY, 'postId');
+  if (existingPostId) {
+    return { postId: existingPostId, created: false };
+  }
+
+  const post = await createPost();
+  await post.sticky();
+  await redis.hSet(INSTALL_KEY, { postId: post.id, installedAt: String(Date.now()) });
+
+  return { postId: post.id, created: true };
+};
@@ -0,0 +1,120 @@
+import { redis } from '@devvit/web/server';
+import { LeaderboardEntry } from '../../shared/types/api';
+
+export const postLeaderboardKey = (postId: string) => `leaderboard:post:${postId}`;
+
+/** Posts that have a leaderboard, scored by when they last received a score. */
+const POST_LEADERBOARDS_KEY = 'leaderboard:posts';
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+/**
+ * Stores `score` for `username` if it beats their current entry.
+ * Returns true when the entry was created or improved.
+ */
+export const recordLeaderboardScore = async (
+  key: string,
+  username: string,
+  score: number
+): Promise<boolean> => {
+  const current = await redis.zScore(key, username);
+  if (current !== undefined && current >= score) {
+    return false;
+  }
+
+  await redis.zAdd(key, { member: username, score });
+  return true;
+};
+
+/** Stores `score` on the leaderboard of `postId`, like `recordLeaderboardScore`. */
+export const recordPostScore = async (
+  postId: string,
+  username: string,
+  score: number
+): Promise<boolean> => {
+  await redis.zAdd(POST_LEADERBOARDS_KEY, { member: postId, score: Date.now() });
+  return await recordLeaderboardScore(postLeaderboardKey(postId), username, score);
+};
+
+/** Ids of every post with a leaderboard. */
+export const getLeaderboardPostIds = async (): Promise<string[]> => {
+  const posts = await redis.zRange(POST_LEADERBOARDS_KEY, 0, -1, { by: 'rank' });
+  return posts.map(({ member }) => member);
+};
+
+export const getLeaderboardSize = async (key: string): Promise<number> => {
+  return await redis.zCard(key);
+};
+
+/** Returns entries ranked from `start` (0-based, highest score first). */
+export const getLeaderboardRange = async (
+  key: string,
+  start: number,
+  count: number
+): Promise<LeaderboardEntry[]> => {
+  if (count <= 0) {
+    return [];
+  }
+
+  const members = await redis.zRange(key, start, start + count - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+
+  return members.map(({ member, score }, index) => ({
+    rank: start + index + 1,
+    username: member,
+    score,
+  }));
+};
+
+export const getTopEntries = async (key: string, limit: number): Promise<LeaderboardEntry[]> => {
+  return await getLeaderboardRange(key, 0, limit);
+};
+
+/** Returns the 1-based rank and score for `username`, or undefined when unranked. */
+export const getPlayerRank = async (
+  key: string,
+  username: string
+): Promise<{ rank: number; score: number } | undefined> => {
+  const [ascendingRank, score, size] = await Promise.all([
+    redis.zRank(key, username),
+    redis.zScore(key, username),
+    redis.zCard(key),
+  ]);
+  if (ascendingRank === undefined || score === undefined) {
+    return undefined;
+  }
+
+  return { rank: size - ascendingRank, score };
+};
+
+/** Returns up to `radius` entries directly above and below `username`. */
+export const getNeighbors = async (
+  key: string,
+  username: string,
+  radius: number
+): Promise<{ rank?: number; above: LeaderboardEntry[]; below: LeaderboardEntry[] }> => {
+  const player = await getPlayerRank(key, username);
+  if (!player) {
+    return { above: [], below: [] };
+  }
+
+  const index = player.rank - 1;
+  const aboveStart = Math.max(0, index - radius);
+  const [above, below] = await Promise.all([
+    getLeaderboardRange(key, aboveStart, index - aboveStart),
+    getLeaderboardRange(key, index + 1, radius),
+  ]);
+
+  return { rank: player.rank, above, below };
+};
+
+export const parseLimit = (value: unknown, fallback: number, max: number): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return fallback;
+  }
+  return Math.min(parsed, max);
+};
@@ -0,0 +1,153 @@
+import { context, reddit, redis } from '@devvit/web/server';
+import { getLeaderboardPostIds, postLeaderboardKey } from './leaderboard';
+import { getSubredditLeaderboardKeys } from './subreddit-leaderboard';
+
+/** Oldest entries are trimmed once a log grows past this many entries. */
+const MAX_LOG_ENTRIES = 500;
+
+/** Moderator actions, scored by the time they were taken. */
+const AUDIT_LOG_KEY = 'moderation:audit';
+
+/** Scores that failed verification, scored by the time they were submitted. */
+const FLAGGED_SCORES_KEY = 'moderation:flagged';
+
+/** Hash of normalized username to the ban that applies to it. */
+const BANNED_USERS_KEY = 'moderation:banned';
+
+export type ModerationAction =
+  | 'reset-leaderboard'
+  | 'remove-entry'
+  | 'ban-user'
+  | 'view-flagged-scores'
+  | 'configure-flair-rewards';
+
+export interface AuditLogEntry {
+  action: ModerationAction;
+  moderator: string;
+  target?: string;
+  details?: string;
+  at: number;
+}
+
+export interface FlaggedScore {
+  userId: string;
+  username?: string;
+  postId?: string;
+  score: number;
+  reason: string;
+  at: number;
+}
+
+export interface LeaderboardBan {
+  moderator: string;
+  reason?: string;
+  at: number;
+}
+
+const stripUserPrefix = (username: string): string => username.trim().replace(/^\/?u\//i, '');
+
+/** Parses a username typed into a moderator form, accepting an optional `u/` prefix. */
+export const parseUsername = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const username = stripUserPrefix(value);
+  return username.length > 0 ? username : undefined;
+};
+
+/**
+ * The name `username` is stored under on leaderboards, in Reddit's casing, or
+ * undefined when no such user exists.
+ */
+export const resolveUsername = async (username: string): Promise<string | undefined> => {
+  const user = await reddit.getUserByUsername(stripUserPrefix(username));
+  return user?.username;
+};
+
+/** Reddit usernames are case-insensitive, so bans are keyed by the lowercased name. */
+const normalizeUsername = (username: string): string => stripUserPrefix(username).toLowerCase();
+
+const appendToLog = async (key: string, entry: { at: number }): Promise<void> => {
+  await redis.zAdd(key, { member: JSON.stringify(entry), score: entry.at });
+  await redis.zRemRangeByRank(key, 0, -(MAX_LOG_ENTRIES + 1));
+};
+
+const readLog = async <T>(key: string, limit: number): Promise<T[]> => {
+  const entries = await redis.zRange(key, 0, limit - 1, { by: 'rank', reverse: true });
+  return entries.map(({ member }) => JSON.parse(member) as T);
+};
+
+export const recordAuditLog = async (entry: Omit<AuditLogEntry, 'at'>): Promise<void> => {
+  await appendToLog(AUDIT_LOG_KEY, { ...entry, at: Date.now() });
+};
+
+/** Lists moderator actions, most recent first. */
+export const getAuditLog = (limit: number): Promise<AuditLogEntry[]> =>
+  readLog<AuditLogEntry>(AUDIT_LOG_KEY, limit);
+
+export const flagScore = async (score: Omit<FlaggedScore, 'at'>): Promise<void> => {
+  await appendToLog(FLAGGED_SCORES_KEY, { ...score, at: Date.now() });
+};
+
+/** Lists scores that failed verification, most recent first. */
+export const getFlaggedScores = (limit: number): Promise<FlaggedScore[]> =>
+  readLog<FlaggedScore>(FLAGGED_SCORES_KEY, limit);
+
+export const resetPostLeaderboard = async (postId: string): Promise<void> => {
+  await redis.del(postLeaderboardKey(postId));
+};
+
+/**
+ * Removes `username` from a post leaderboard. It must be the name as Reddit
+ * spells it, from `resolveUsername`. Returns false when they had no entry.
+ */
+export const removeLeaderboardEntry = async (
+  postId: string,
+  username: string
+): Promise<boolean> => {
+  const removed = await redis.zRem(postLeaderboardKey(postId), [username]);
+  return removed > 0;
+};
+
+export const getLeaderboardBan = async (username: string): Promise<LeaderboardBan | undefined> => {
+  const ban = await redis.hGet(BANNED_USERS_KEY, normalizeUsername(username));
+  return ban ? (JSON.parse(ban) as LeaderboardBan) : undefined;
+};
+
+export const isBannedFromLeaderboards = async (username: string): Promise<boolean> =>
+  (await getLeaderboardBan(username)) !== undefined;
+
+/**
+ * Bans `username` from all leaderboards and removes them from every post and
+ * subreddit leaderboard, past periods included. It must be the name as Reddit
+ * spells it, from `resolveUsername`. Their personal high score is kept.
+ */
+export const banFromLeaderboards = async (
+  username: string,
+  ban: Omit<LeaderboardBan, 'at'>
+): Promise<void> => {
+  const entry: LeaderboardBan = { ...ban, at: Date.now() };
+  await redis.hSet(BANNED_USERS_KEY, { [normalizeUsername(username)]: JSON.stringify(entry) });
+
+  const [postIds, subredditKeys] = await Promise.all([
+    getLeaderboardPostIds(),
+    getSubredditLeaderboardKeys(),
+  ]);
+  await Promise.all(
+    [...postIds.map(postLeaderboardKey), ...subredditKeys].map((key) => redis.zRem(key, [username]))
+  );
+};
+
+/**
+ * Whether `username` moderates the current subreddit. Menu items are limited to
+ * moderators by `devvit.json`; API routes that serve moderator data check this.
+ */
+export const isModerator = async (username: string): Promise<boolean> => {
+  const moderators = await reddit
+    .getModerators({ subredditName: context.subredditName, username })
+    .all();
+  // Match the name rather than trust the filter, so an unfiltered list never lets everyone in
+  return moderators.some(
+    (moderator) => moderator.username.toLowerCase() === username.toLowerCase()
+  );
+};
@@ -0,0 +1,42 @@
+import { redis } from '@devvit/web/server';
+import { PlayerSettings } from '../../shared/types/api';
+
+/** Hash of one Reddit user's preferences. Unset fields fall back to the defaults. */
+const playerSettingsKey = (userId: string) => `settings:player:${userId}`;
+
+export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  scoreCardComments: true,
+};
+
+/** Narrows an untrusted request body to the settings it validly changes. */
+export const parsePlayerSettingsUpdate = (value: unknown): Partial<PlayerSettings> | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { scoreCardComments } = value as Record<string, unknown>;
+
+  if (scoreCardComments !== undefined && typeof scoreCardComments !== 'boolean') return undefined;
+
+  return scoreCardComments === undefined ? {} : { scoreCardComments };
+};
+
+export const getPlayerSettings = async (userId: string): Promise<PlayerSettings> => {
+  const stored = await redis.hGetAll(playerSettingsKey(userId));
+  return {
+    scoreCardComments:
+      stored.scoreCardComments === undefined
+        ? DEFAULT_PLAYER_SETTINGS.scoreCardComments
+        : stored.scoreCardComments === 'true',
+  };
+};
+
+export const updatePlayerSettings = async (
+  userId: string,
+  update: Partial<PlayerSettings>
+): Promise<PlayerSettings> => {
+  const fields = Object.fromEntries(
+    Object.entries(update).map(([name, value]) => [name, String(value)])
+  );
+  if (Object.keys(fields).length > 0) {
+    await redis.hSet(playerSettingsKey(userId), fields);
+  }
+  return getPlayerSettings(userId);
+};
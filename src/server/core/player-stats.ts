@@ -0,0 +1,48 @@
+import { redis } from '@devvit/web/server';
+import { COLLECTIBLE_TYPES, CollectibleType } from '../../shared/simulation/rules';
+import { RunSummary } from '../../shared/simulation/run-simulation';
+import { PlayerStats } from '../../shared/types/api';
+
+/** Hash of lifetime counters for one Reddit user. */
+export const playerStatsKey = (userId: string) => `stats:player:${userId}`;
+
+const collectibleField = (type: CollectibleType) => `collected:${type}`;
+
+/** Adds a verified run to the player's lifetime stats. */
+export const recordRunStats = async (userId: string, summary: RunSummary): Promise<void> => {
+  const key = playerStatsKey(userId);
+  const increments: [string, number][] = [
+    ['runsPlayed', 1],
+    ['totalDistance', summary.distance],
+    ['totalTimeSurvivedMs', summary.timeSurvivedMs],
+    ['obstaclesHit', summary.obstaclesHit],
+    ...COLLECTIBLE_TYPES.map((type): [string, number] => [
+      collectibleField(type),
+      summary.collectibles[type],
+    ]),
+  ];
+
+  await Promise.all(
+    increments
+      .filter(([, amount]) => amount > 0)
+      .map(([field, amount]) => redis.hIncrBy(key, field, amount))
+  );
+};
+
+export const getPlayerStats = async (userId: string): Promise<PlayerStats> => {
+  const stored = await redis.hGetAll(playerStatsKey(userId));
+  const count = (field: string) => Number(stored[field] ?? 0);
+
+  return {
+    runsPlayed: count('runsPlayed'),
+    totalDistance: count('totalDistance'),
+    totalTimeSurvivedMs: count('totalTimeSurvivedMs'),
+    obstaclesHit: count('obstaclesHit'),
+    collectibles: {
+      coin: count(collectibleField('coin')),
+      diya: count(collectibleField('diya')),
+      phooljhadi: count(collectibleField('phooljhadi')),
+      rangoli: count(collectibleField('rangoli')),
+    },
+  };
+};
@@ -1,6 +1,24 @@
 import { context, reddit } from '@devvit/web/server';
+import { DEFAULT_POST_DATA } from '../../shared/post-data';
+import { GamePostData } from '../../shared/types/post';
 
-export const createPost = async () => {
+type SplashOptions = NonNullable<Parameters<typeof reddit.submitCustomPost>[0]['splash']>;
+
+export interface CreatePostOptions {
+  title?: string;
+  postData?: GamePostData;
+  /** `devvit.json` entrypoint the post opens; the game unless set. */
+  entry?: string;
+  /** Overrides for the game's splash screen. */
+  splash?: Partial<SplashOptions>;
+}
+
+export const createPost = async ({
+  title = 'diwali-run',
+  postData = DEFAULT_POST_DATA,
+  entry,
+  splash,
+}: CreatePostOptions = {}) => {
   const { subredditName } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
@@ -16,12 +34,11 @@ export const createPost = async () => {
         'Dodge obstacles, collect coins, and set new high scores in this thrilling 3D endless runner!',
       heading: 'Ready to Run?',
       appIconUri: 'default-icon.png',
+      entry,
+      ...splash,
     },
-    postData: {
-      gameState: 'initial',
-      score: 0,
-    },
+    postData: { ...postData },
     subredditName: subredditName,
-    title: 'diwali-run',
+    title,
   });
 };
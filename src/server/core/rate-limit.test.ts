@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHALLENGES_PER_HOUR,
+  consumeChallengeSubmission,
+  consumeScoreSubmission,
+  consumeTelemetrySubmission,
+  SCORE_SUBMISSIONS_PER_MINUTE,
+} from './rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Submits `times` times in a row and returns whether each was allowed. */
+const submit = async (
+  consume: typeof consumeScoreSubmission,
+  userId: string,
+  now: number,
+  times: number
+): Promise<boolean[]> => {
+  const allowed: boolean[] = [];
+  for (let i = 0; i < times; i++) {
+    allowed.push(await consume(userId, now));
+  }
+  return allowed;
+};
+
+describe('consumeScoreSubmission', () => {
+  it('allows the per-minute cap and refuses the submission after it', async () => {
+    const now = 1_000 * MINUTE_MS;
+
+    const allowed = await submit(
+      consumeScoreSubmission,
+      't2_cap',
+      now,
+      SCORE_SUBMISSIONS_PER_MINUTE
+    );
+    expect(allowed.every(Boolean)).toBe(true);
+    expect(await consumeScoreSubmission('t2_cap', now + 30 * 1000)).toBe(false);
+  });
+
+  it('starts counting again in the next minute', async () => {
+    const now = 2_000 * MINUTE_MS;
+
+    await submit(consumeScoreSubmission, 't2_window', now, SCORE_SUBMISSIONS_PER_MINUTE + 1);
+    expect(await consumeScoreSubmission('t2_window', now + MINUTE_MS)).toBe(true);
+  });
+
+  it('counts each player separately', async () => {
+    const now = 3_000 * MINUTE_MS;
+
+    await submit(consumeScoreSubmission, 't2_busy', now, SCORE_SUBMISSIONS_PER_MINUTE + 1);
+    expect(await consumeScoreSubmission('t2_quiet', now)).toBe(true);
+  });
+
+  it('keeps telemetry reports off the score counter', async () => {
+    const now = 4_000 * MINUTE_MS;
+
+    await submit(consumeTelemetrySubmission, 't2_reporter', now, SCORE_SUBMISSIONS_PER_MINUTE);
+    expect(await consumeTelemetrySubmission('t2_reporter', now)).toBe(false);
+    expect(await consumeScoreSubmission('t2_reporter', now)).toBe(true);
+  });
+});
+
+describe('consumeChallengeSubmission', () => {
+  it('allows the hourly cap and refuses challenges until the next hour', async () => {
+    const hour = 60 * MINUTE_MS;
+    const now = 5_000 * hour;
+
+    const allowed = await submit(
+      consumeChallengeSubmission,
+      't2_challenger',
+      now,
+      CHALLENGES_PER_HOUR
+    );
+    expect(allowed.every(Boolean)).toBe(true);
+    expect(await consumeChallengeSubmission('t2_challenger', now + 30 * MINUTE_MS)).toBe(false);
+    expect(await consumeChallengeSubmission('t2_challenger', now + hour)).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { redis } from '@devvit/web/server';
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+/** Score submissions one player may make per minute. */
+export const SCORE_SUBMISSIONS_PER_MINUTE = 10;
+
+/** Challenges one player may send per hour; each one messages another Redditor. */
+export const CHALLENGES_PER_HOUR = 5;
+
+/** What is being submitted; each kind has its own counter. */
+type SubmissionKind = 'score' | 'telemetry' | 'challenge';
+
+/** How many of each kind one player may submit per fixed window of `windowSeconds`. */
+const SUBMISSION_LIMITS: Record<SubmissionKind, { max: number; windowSeconds: number }> = {
+  score: { max: SCORE_SUBMISSIONS_PER_MINUTE, windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+  telemetry: { max: SCORE_SUBMISSIONS_PER_MINUTE, windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+  challenge: { max: CHALLENGES_PER_HOUR, windowSeconds: 60 * 60 },
+};
+
+/** Counter for one player's submissions in the current fixed window. */
+const submissionsKey = (kind: SubmissionKind, userId: string, window: number) =>
+  `rate-limit:${kind}:${userId}:${window}`;
+
+const consumeSubmission = async (
+  kind: SubmissionKind,
+  userId: string,
+  now: number
+): Promise<boolean> => {
+  const { max, windowSeconds } = SUBMISSION_LIMITS[kind];
+  const window = Math.floor(now / (windowSeconds * 1000));
+  const key = submissionsKey(kind, userId, window);
+  const count = await redis.incrBy(key, 1);
+  if (count === 1) {
+    // Outlive the window so a slow first request cannot leave a counter without expiry
+    await redis.expire(key, windowSeconds * 2);
+  }
+  return count <= max;
+};
+
+/**
+ * Counts a score submission against the player's per-minute cap. Returns false,
+ * without saving anything, once the cap for the current minute is used up.
+ */
+export const consumeScoreSubmission = async (
+  userId: string,
+  now: number = Date.now()
+): Promise<boolean> => consumeSubmission('score', userId, now);
+
+/** Counts a telemetry report against the same per-minute cap as score submissions. */
+export const consumeTelemetrySubmission = async (
+  userId: string,
+  now: number = Date.now()
+): Promise<boolean> => consumeSubmission('telemetry', userId, now);
+
+/** Counts a challenge against the player's hourly cap. Returns false once it is used up. */
+export const consumeChallengeSubmission = async (
+  userId: string,
+  now: number = Date.now()
+): Promise<boolean> => consumeSubmission('challenge', userId, now);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GAMEPLAY_SETTINGS } from '../../shared/post-data';
+import { consumeRunSession, createRunSession } from './run-session';
+
+const start = (userId: string, postId = 't3_post') =>
+  createRunSession(userId, postId, 1234, DEFAULT_GAMEPLAY_SETTINGS);
+
+describe('consumeRunSession', () => {
+  it('accepts a session once and rejects it when reused', async () => {
+    const { session, token } = await start('t2_reuse');
+
+    expect(await consumeRunSession(token, 't2_reuse', 't3_post')).toEqual({
+      valid: true,
+      session,
+    });
+    expect(await consumeRunSession(token, 't2_reuse', 't3_post')).toEqual({
+      valid: false,
+      reason: 'run session has already been used',
+    });
+  });
+
+  it('lets telemetry use a session its score already used, once', async () => {
+    const { token } = await start('t2_telemetry');
+    const now = Date.now();
+
+    expect((await consumeRunSession(token, 't2_telemetry', 't3_post', now)).valid).toBe(true);
+    expect(
+      (await consumeRunSession(token, 't2_telemetry', 't3_post', now, 'telemetry')).valid
+    ).toBe(true);
+    expect(await consumeRunSession(token, 't2_telemetry', 't3_post', now, 'telemetry')).toEqual({
+      valid: false,
+      reason: 'run session has already been used',
+    });
+  });
+
+  it('rejects a session played by another player or on another post', async () => {
+    const { token } = await start('t2_owner');
+
+    expect((await consumeRunSession(token, 't2_other', 't3_post')).valid).toBe(false);
+    expect((await consumeRunSession(token, 't2_owner', 't3_other')).valid).toBe(false);
+    // Neither attempt used the session up
+    expect((await consumeRunSession(token, 't2_owner', 't3_post')).valid).toBe(true);
+  });
+
+  it('rejects a token whose payload was changed', async () => {
+    const { session, token } = await start('t2_tamper');
+    const [, signature] = token.split('.');
+    const payload = Buffer.from(JSON.stringify({ ...session, seed: 1 })).toString('base64url');
+
+    expect(await consumeRunSession(`${payload}.${signature}`, 't2_tamper', 't3_post')).toEqual({
+      valid: false,
+      reason: 'run session token has an invalid signature',
+    });
+  });
+
+  it('rejects an expired session', async () => {
+    const { session, token } = await start('t2_expired');
+    const dayLater = session.startedAt + 24 * 60 * 60 * 1000;
+
+    expect(await consumeRunSession(token, 't2_expired', 't3_post', dayLater)).toEqual({
+      valid: false,
+      reason: 'run session has expired',
+    });
+  });
+});
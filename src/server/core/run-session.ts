@@ -0,0 +1,141 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { redis } from '@devvit/web/server';
+import { isValidSeed } from '../../shared/simulation/random';
+import { SIMULATION_STEP } from '../../shared/simulation/rules';
+import { GameplaySettings } from '../../shared/types/api';
+import { MAX_RUN_TICKS } from './verification';
+
+/** Per-install secret that run session tokens are signed with. */
+const SESSION_SECRET_KEY = 'run-session:secret';
+
+/** What a finished run sends with its session token; each is accepted once per session. */
+export type RunSessionUse = 'score' | 'telemetry';
+
+/** Marks a session as submitted for `use`; expires with the session itself. */
+const usedSessionKey = (sessionId: string, use: RunSessionUse) =>
+  use === 'score' ? `run-session:used:${sessionId}` : `run-session:used:${use}:${sessionId}`;
+
+/** A session outlives the longest accepted run by this much to allow for slow submissions. */
+const SESSION_GRACE_MS = 5 * 60 * 1000;
+const SESSION_MAX_AGE_MS = MAX_RUN_TICKS * SIMULATION_STEP * 1000 + SESSION_GRACE_MS;
+
+/** Issued before a run starts; the run must use its seed and be submitted once. */
+export interface RunSession {
+  id: string;
+  userId: string;
+  postId?: string;
+  seed: number;
+  startedAt: number;
+  /** The install's gameplay settings when the run started, so later changes don't affect it. */
+  gameplay: GameplaySettings;
+  /** Set when the run is played as an incoming challenge. */
+  challengeId?: string;
+}
+
+export type RunSessionCheck =
+  | { valid: true; session: RunSession }
+  | { valid: false; reason: string };
+
+const getSessionSecret = async (): Promise<string> => {
+  // Concurrent first calls race on NX, so always read back the secret that won
+  await redis.set(SESSION_SECRET_KEY, randomBytes(32).toString('hex'), { nx: true });
+  const secret = await redis.get(SESSION_SECRET_KEY);
+  if (!secret) {
+    throw new Error('Run session secret is missing');
+  }
+  return secret;
+};
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+const isRunSession = (value: unknown): value is RunSession => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, userId, postId, seed, startedAt, gameplay, challengeId } = value as Record<
+    string,
+    unknown
+  >;
+  return (
+    typeof id === 'string' &&
+    typeof userId === 'string' &&
+    (postId === undefined || typeof postId === 'string') &&
+    isValidSeed(seed) &&
+    typeof startedAt === 'number' &&
+    typeof gameplay === 'object' &&
+    gameplay !== null &&
+    (challengeId === undefined || typeof challengeId === 'string')
+  );
+};
+
+/** Starts a run session and returns it with its signed token. */
+export const createRunSession = async (
+  userId: string,
+  postId: string | undefined,
+  seed: number,
+  gameplay: GameplaySettings,
+  challengeId?: string
+): Promise<{ session: RunSession; token: string }> => {
+  const session: RunSession = {
+    id: randomUUID(),
+    userId,
+    postId,
+    seed,
+    startedAt: Date.now(),
+    gameplay,
+    challengeId,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  const token = `${payload}.${sign(payload, await getSessionSecret())}`;
+  return { session, token };
+};
+
+/**
+ * Checks that `token` was issued by this app to `userId` on `postId`, has not
+ * expired and has not been submitted for `use` before, then marks it as used for it.
+ */
+export const consumeRunSession = async (
+  token: string,
+  userId: string,
+  postId: string | undefined,
+  now: number = Date.now(),
+  use: RunSessionUse = 'score'
+): Promise<RunSessionCheck> => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return { valid: false, reason: 'run session token is malformed' };
+  }
+
+  const expected = Buffer.from(sign(payload, await getSessionSecret()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'run session token has an invalid signature' };
+  }
+
+  let session: unknown;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return { valid: false, reason: 'run session token is malformed' };
+  }
+  if (!isRunSession(session)) {
+    return { valid: false, reason: 'run session token is malformed' };
+  }
+
+  if (session.userId !== userId || session.postId !== postId) {
+    return { valid: false, reason: 'run session belongs to another player or post' };
+  }
+  const expiresAt = session.startedAt + SESSION_MAX_AGE_MS;
+  if (now > expiresAt) {
+    return { valid: false, reason: 'run session has expired' };
+  }
+
+  const claimed = await redis.set(usedSessionKey(session.id, use), String(now), {
+    nx: true,
+    expiration: new Date(expiresAt),
+  });
+  if (!claimed) {
+    return { valid: false, reason: 'run session has already been used' };
+  }
+
+  return { valid: true, session };
+};
@@ -0,0 +1,97 @@
+import { reddit } from '@devvit/web/server';
+import {
+  COLLECTIBLE_TYPES,
+  CollectibleType,
+  DEFAULT_RUN_RULES,
+} from '../../shared/simulation/rules';
+import { RunSummary } from '../../shared/simulation/run-simulation';
+import { getPlayerRank, postLeaderboardKey } from './leaderboard';
+import { getPlayerSettings } from './player-settings';
+
+const COLLECTIBLE_NAMES: Record<CollectibleType, string> = {
+  coin: '🪙 Coins',
+  diya: '🪔 Diyas',
+  phooljhadi: '✨ Sparklers',
+  rangoli: '🌸 Rangolis',
+};
+
+export interface NewRecord {
+  postId: `t3_${string}`;
+  userId: string;
+  username: string;
+  score: number;
+  summary: RunSummary;
+  /** Rank on the post leaderboard before this run, if the player had one. */
+  previousRank?: number;
+}
+
+const formatNumber = (value: number): string => value.toLocaleString('en-US');
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}m ${seconds}s`;
+};
+
+/** Markdown comment celebrating a run that took #1 on its post. */
+export const formatScoreCard = ({ username, score, summary, previousRank }: NewRecord): string => {
+  // Pickups can be worth more under a multiplier and broken cones cost some back, so they
+  // are whatever survival doesn't explain
+  const survivalPoints = Math.floor(
+    (summary.timeSurvivedMs * DEFAULT_RUN_RULES.survivalPointsPerSecond) / 1000
+  );
+  const pickupPoints = score - survivalPoints;
+  const rankChange =
+    previousRank === undefined
+      ? 'New entry → **#1**'
+      : previousRank === 1
+        ? 'Still **#1**, with a new best'
+        : `#${previousRank} → **#1**`;
+
+  return [
+    `🏆 **u/${username} is #1 on this post with ${formatNumber(score)} points!**`,
+    '',
+    `**Rank:** ${rankChange}`,
+    '',
+    '| Score | Points |',
+    '|:--|--:|',
+    `| ⏱️ Survived ${formatDuration(summary.timeSurvivedMs)} | ${formatNumber(survivalPoints)} |`,
+    `| 🎆 Pickups | ${formatNumber(pickupPoints)} |`,
+    `| **Total** | **${formatNumber(score)}** |`,
+    '',
+    '| Collected | Count |',
+    '|:--|--:|',
+    ...COLLECTIBLE_TYPES.map(
+      (type) => `| ${COLLECTIBLE_NAMES[type]} | ${formatNumber(summary.collectibles[type])} |`
+    ),
+    '',
+    `${formatNumber(summary.distance)} m run · top speed ${summary.topSpeed}`,
+    '',
+    "^(Players can turn off score cards in the game's settings.)",
+  ].join('\n');
+};
+
+/**
+ * Comments a score card on the game post when a new personal best also tops the
+ * post leaderboard, unless the player opted out. Call after the leaderboard has
+ * been updated. Returns true when a comment was posted.
+ */
+export const postScoreCard = async (record: NewRecord): Promise<boolean> => {
+  const current = await getPlayerRank(postLeaderboardKey(record.postId), record.username);
+  if (current?.rank !== 1) {
+    return false;
+  }
+
+  const { scoreCardComments } = await getPlayerSettings(record.userId);
+  if (!scoreCardComments) {
+    return false;
+  }
+
+  await reddit.submitComment({
+    id: record.postId,
+    text: formatScoreCard(record),
+    runAs: 'APP',
+  });
+  return true;
+};
@@ -0,0 +1,34 @@
+import { redis } from '@devvit/web/server';
+import { SaveScoreResponse } from '../../shared/types/api';
+
+const highScoreKey = (userId: string) => `score:high:${userId}`;
+
+export const isValidScore = (score: unknown): score is number =>
+  typeof score === 'number' && Number.isSafeInteger(score) && score >= 0;
+
+export const getHighScore = async (userId: string): Promise<number> => {
+  const stored = await redis.get(highScoreKey(userId));
+  return stored ? Number(stored) : 0;
+};
+
+export const saveScore = async (userId: string, score: number): Promise<SaveScoreResponse> => {
+  const previousHighScore = await getHighScore(userId);
+
+  if (score <= previousHighScore) {
+    return {
+      newHighScore: false,
+      score,
+      highScore: previousHighScore,
+      previousHighScore,
+    };
+  }
+
+  await redis.set(highScoreKey(userId), String(score));
+
+  return {
+    newHighScore: true,
+    score,
+    highScore: score,
+    previousHighScore,
+  };
+};
@@ -0,0 +1,140 @@
+import { redis } from '@devvit/web/server';
+import { ArchivedLeaderboardPeriod, LeaderboardWindow } from '../../shared/types/api';
+import { recordLeaderboardScore } from './leaderboard';
+
+export const LEADERBOARD_WINDOWS: readonly LeaderboardWindow[] = ['daily', 'weekly', 'all-time'];
+
+const ALL_TIME_PERIOD_ID = 'all-time';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isLeaderboardWindow = (value: unknown): value is LeaderboardWindow =>
+  typeof value === 'string' && (LEADERBOARD_WINDOWS as readonly string[]).includes(value);
+
+export const subredditLeaderboardKey = (window: LeaderboardWindow, periodId: string) =>
+  `leaderboard:subreddit:${window}:${periodId}`;
+
+/** Periods that have received scores but have not been archived yet. */
+const openPeriodsKey = (window: LeaderboardWindow) => `leaderboard:subreddit:${window}:open`;
+
+/** Closed periods, scored by the time they were archived. */
+const archiveKey = (window: LeaderboardWindow) => `leaderboard:subreddit:${window}:archive`;
+
+const startOfUtcDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/** Returns the ISO-8601 week (Monday start) containing `date`, e.g. `2025-W43`. */
+const isoWeekId = (date: Date): string => {
+  const day = new Date(startOfUtcDay(date));
+  // Thursday of the current week decides which year the week belongs to.
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/** Returns the id of the window period that contains `date`. */
+export const getPeriodId = (window: LeaderboardWindow, date: Date = new Date()): string => {
+  switch (window) {
+    case 'daily':
+      return new Date(startOfUtcDay(date)).toISOString().slice(0, 10);
+    case 'weekly':
+      return isoWeekId(date);
+    case 'all-time':
+      return ALL_TIME_PERIOD_ID;
+  }
+};
+
+/** Returns the id of the window period just before the one that contains `date`. */
+export const getPreviousPeriodId = (
+  window: Exclude<LeaderboardWindow, 'all-time'>,
+  date: Date = new Date()
+): string => getPeriodId(window, new Date(date.getTime() - (window === 'daily' ? 1 : 7) * DAY_MS));
+
+/** Records `score` in the current period of every subreddit leaderboard window. */
+export const recordSubredditScore = async (
+  username: string,
+  score: number,
+  now: Date = new Date()
+): Promise<void> => {
+  await Promise.all(
+    LEADERBOARD_WINDOWS.map(async (window) => {
+      const periodId = getPeriodId(window, now);
+      await recordLeaderboardScore(subredditLeaderboardKey(window, periodId), username, score);
+      if (window !== 'all-time') {
+        await redis.zAdd(openPeriodsKey(window), { member: periodId, score: now.getTime() });
+      }
+    })
+  );
+};
+
+/**
+ * Archives every open daily and weekly period that is no longer current.
+ * Archived periods keep their sorted sets so past winners stay queryable.
+ */
+export const rolloverLeaderboards = async (
+  now: Date = new Date()
+): Promise<Record<LeaderboardWindow, string[]>> => {
+  const archived: Record<LeaderboardWindow, string[]> = { daily: [], weekly: [], 'all-time': [] };
+
+  for (const window of LEADERBOARD_WINDOWS) {
+    if (window === 'all-time') {
+      continue;
+    }
+
+    const currentPeriodId = getPeriodId(window, now);
+    const openPeriods = await redis.zRange(openPeriodsKey(window), 0, -1, { by: 'rank' });
+    const closedPeriods = openPeriods
+      .map(({ member }) => member)
+      .filter((periodId) => periodId !== currentPeriodId);
+    if (closedPeriods.length === 0) {
+      continue;
+    }
+
+    await redis.zAdd(
+      archiveKey(window),
+      ...closedPeriods.map((periodId) => ({ member: periodId, score: now.getTime() }))
+    );
+    await redis.zRem(openPeriodsKey(window), closedPeriods);
+    archived[window] = closedPeriods;
+  }
+
+  return archived;
+};
+
+/** Keys of every subreddit leaderboard period, open or archived. */
+export const getSubredditLeaderboardKeys = async (): Promise<string[]> => {
+  const keys = await Promise.all(
+    LEADERBOARD_WINDOWS.map(async (window) => {
+      if (window === 'all-time') {
+        return [subredditLeaderboardKey(window, ALL_TIME_PERIOD_ID)];
+      }
+
+      const periods = await Promise.all([
+        redis.zRange(openPeriodsKey(window), 0, -1, { by: 'rank' }),
+        redis.zRange(archiveKey(window), 0, -1, { by: 'rank' }),
+      ]);
+      return periods.flat().map(({ member }) => subredditLeaderboardKey(window, member));
+    })
+  );
+  return keys.flat();
+};
+
+/** Lists archived periods for `window`, most recently archived first. */
+export const getArchivedPeriods = async (
+  window: LeaderboardWindow,
+  limit: number
+): Promise<ArchivedLeaderboardPeriod[]> => {
+  const periods = await redis.zRange(archiveKey(window), 0, limit - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+  return periods.map(({ member, score }) => ({ periodId: member, archivedAt: score }));
+};
+
+export const isArchivedPeriod = async (
+  window: LeaderboardWindow,
+  periodId: string
+): Promise<boolean> => {
+  return (await redis.zScore(archiveKey(window), periodId)) !== undefined;
+};
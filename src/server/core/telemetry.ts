@@ -0,0 +1,168 @@
+import { redis } from '@devvit/web/server';
+import { COLLECTIBLE_TYPES, LANE_POSITIONS, SIMULATION_STEP } from '../../shared/simulation/rules';
+import {
+  DEVICE_PROFILES,
+  isDeviceProfile,
+  TELEMETRY_MAX_SEGMENTS,
+  telemetrySegment,
+} from '../../shared/telemetry';
+import { RunAnalytics, RunTelemetry } from '../../shared/types/api';
+import { createPost } from './post';
+import { MAX_RUN_TICKS } from './verification';
+
+/**
+ * One hash of counters for every run ever reported. Runs are anonymous: nothing
+ * identifying the player is stored, only totals.
+ */
+const TELEMETRY_KEY = 'telemetry:runs';
+
+/** The post moderators open to view the analytics charts. */
+const ANALYTICS_POST_KEY = 'telemetry:analytics-post';
+
+const MAX_RUN_MS = MAX_RUN_TICKS * SIMULATION_STEP * 1000;
+
+/** Well above the speed any run reaches within the longest accepted run. */
+const MAX_SPEED = 1000;
+
+const field = {
+  runs: 'runs',
+  runMs: 'run-ms',
+  runLength: (segment: number) => `length:${segment}`,
+  deathLane: (lane: number) => `death-lane:${lane}`,
+  deathSpeed: (speed: number) => `death-speed:${speed}`,
+  pickup: (type: string) => `pickup:${type}`,
+  lane: (segment: number, lane: number) => `lane:${segment}:${lane}`,
+  device: (profile: string) => `device:${profile}`,
+};
+
+const isCount = (value: unknown, max: number = Number.MAX_SAFE_INTEGER): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+const isLane = (value: unknown): value is number => isCount(value, LANE_POSITIONS.length - 1);
+
+/** Narrows an untrusted request body to telemetry for one plausible run. */
+export const parseRunTelemetry = (value: unknown): RunTelemetry | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { runLengthMs, death, pickups, laneTicks, deviceProfile } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (!isCount(runLengthMs, MAX_RUN_MS) || !isDeviceProfile(deviceProfile)) return undefined;
+
+  if (typeof death !== 'object' || death === null) return undefined;
+  const { lane, speed } = death as Record<string, unknown>;
+  if (!isLane(lane) || typeof speed !== 'number' || !(speed >= 0 && speed <= MAX_SPEED)) {
+    return undefined;
+  }
+
+  if (typeof pickups !== 'object' || pickups === null) return undefined;
+  const counts = pickups as Record<string, unknown>;
+  if (!COLLECTIBLE_TYPES.every((type) => isCount(counts[type]))) return undefined;
+
+  if (
+    !Array.isArray(laneTicks) ||
+    laneTicks.length > TELEMETRY_MAX_SEGMENTS ||
+    !laneTicks.every(
+      (segment) =>
+        Array.isArray(segment) &&
+        segment.length === LANE_POSITIONS.length &&
+        segment.every((ticks) => isCount(ticks, MAX_RUN_TICKS))
+    )
+  ) {
+    return undefined;
+  }
+
+  return {
+    runLengthMs,
+    death: { lane, speed },
+    pickups: Object.fromEntries(
+      COLLECTIBLE_TYPES.map((type) => [type, counts[type]])
+    ) as RunTelemetry['pickups'],
+    laneTicks: laneTicks as number[][],
+    deviceProfile,
+  };
+};
+
+/**
+ * Adds one run's telemetry to the running totals. Each non-zero counter is its
+ * own `hIncrBy`, sent concurrently rather than in a transaction: the counters are
+ * independent, so a failed call only leaves that run partly counted.
+ */
+export const recordRunTelemetry = async ({
+  runLengthMs,
+  death,
+  pickups,
+  laneTicks,
+  deviceProfile,
+}: RunTelemetry): Promise<void> => {
+  const increments: [string, number][] = [
+    [field.runs, 1],
+    [field.runMs, runLengthMs],
+    [field.runLength(telemetrySegment(runLengthMs)), 1],
+    [field.deathLane(death.lane), 1],
+    [field.deathSpeed(Math.floor(death.speed)), 1],
+    [field.device(deviceProfile), 1],
+    ...COLLECTIBLE_TYPES.map((type): [string, number] => [field.pickup(type), pickups[type]]),
+    ...laneTicks.flatMap((segment, index) =>
+      segment.map((ticks, lane): [string, number] => [field.lane(index, lane), ticks])
+    ),
+  ];
+
+  await Promise.all(
+    increments
+      .filter(([, value]) => value > 0)
+      .map(([name, value]) => redis.hIncrBy(TELEMETRY_KEY, name, value))
+  );
+};
+
+/** Reads the running totals back into chartable series. */
+export const getRunAnalytics = async (): Promise<RunAnalytics> => {
+  const stored = await redis.hGetAll(TELEMETRY_KEY);
+  const read = (name: string) => Number(stored[name] ?? 0);
+  const segments = Array.from({ length: TELEMETRY_MAX_SEGMENTS }, (_, segment) => segment);
+  const lanes = LANE_POSITIONS.map((_, lane) => lane);
+
+  const deathsBySpeed: Record<string, number> = {};
+  for (const [name, value] of Object.entries(stored)) {
+    const [kind, speed] = name.split(':');
+    if (kind === 'death-speed' && speed !== undefined) {
+      deathsBySpeed[speed] = Number(value);
+    }
+  }
+
+  return {
+    runs: read(field.runs),
+    totalRunMs: read(field.runMs),
+    runLengths: segments.map((segment) => read(field.runLength(segment))),
+    deathsByLane: lanes.map((lane) => read(field.deathLane(lane))),
+    deathsBySpeed,
+    pickups: Object.fromEntries(
+      COLLECTIBLE_TYPES.map((type) => [type, read(field.pickup(type))])
+    ) as RunAnalytics['pickups'],
+    laneHeatmap: segments.map((segment) => lanes.map((lane) => read(field.lane(segment, lane)))),
+    devices: Object.fromEntries(
+      DEVICE_PROFILES.map((profile) => [profile, read(field.device(profile))])
+    ) as RunAnalytics['devices'],
+  };
+};
+
+/** Returns the analytics post, creating it the first time a moderator asks for it. */
+export const getOrCreateAnalyticsPost = async (): Promise<string> => {
+  const existingPostId = await redis.get(ANALYTICS_POST_KEY);
+  if (existingPostId) {
+    return existingPostId;
+  }
+
+  const post = await createPost({
+    title: 'Diwali Run analytics (moderators only)',
+    entry: 'analytics',
+    splash: {
+      heading: 'Run analytics',
+      description: 'How players run, where they crash and what they collect.',
+      buttonLabel: 'Open analytics',
+    },
+  });
+  await redis.set(ANALYTICS_POST_KEY, post.id);
+  return post.id;
+};
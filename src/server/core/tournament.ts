@@ -0,0 +1,180 @@
+import { randomUUID } from 'node:crypto';
+import { reddit, redis } from '@devvit/web/server';
+import { DEFAULT_POST_DATA } from '../../shared/post-data';
+import { createSeed, seedFromString } from '../../shared/simulation/random';
+import { TournamentResults, TournamentStatus } from '../../shared/types/api';
+import { GamePostData, TournamentConfig } from '../../shared/types/post';
+import { getLeaderboardSize, getTopEntries, postLeaderboardKey } from './leaderboard';
+import { createPost } from './post';
+
+// A tournament is a post with `mode: 'tournament'`. Its post leaderboard is the
+// tournament leaderboard; it stops changing once the window closes because no
+// new runs can start or be submitted after that.
+
+/** Runs started before the end may still be submitted for this long afterwards. */
+export const TOURNAMENT_SUBMISSION_GRACE_MS = 5 * 60 * 1000;
+
+/** How many places the published standings list. */
+const STANDINGS_LIMIT = 10;
+
+/** Sorted set of tournament post ids still to be closed, scored by end time. */
+const OPEN_TOURNAMENTS_KEY = 'tournaments:open';
+
+/** Hash of user id to runs started in a tournament. */
+const attemptsKey = (postId: string) => `tournament:${postId}:attempts`;
+
+const resultsKey = (postId: string) => `tournament:${postId}:results`;
+
+export type TournamentAttempt =
+  | { allowed: true; attemptsUsed: number }
+  | { allowed: false; reason: string };
+
+export interface CreateTournamentOptions {
+  title: string;
+  startsAt: number;
+  endsAt: number;
+  attemptsPerUser: number;
+  /** Every round of this length gets its own seed; unset to play one seed throughout. */
+  roundMs?: number;
+}
+
+export const getTournamentStatus = (
+  { startsAt, endsAt }: TournamentConfig,
+  now: number = Date.now()
+): TournamentStatus => (now < startsAt ? 'upcoming' : now < endsAt ? 'open' : 'closed');
+
+/** 0-based round at `now`, or undefined when the whole tournament plays one seed. */
+export const getTournamentRound = (
+  { startsAt, roundMs }: TournamentConfig,
+  now: number = Date.now()
+): number | undefined =>
+  roundMs === undefined ? undefined : Math.max(0, Math.floor((now - startsAt) / roundMs));
+
+/** Seed for runs started at `now`: the post's fixed seed, or the current round's. */
+export const getTournamentSeed = (
+  postData: GamePostData,
+  tournament: TournamentConfig,
+  now: number = Date.now()
+): number => {
+  const round = getTournamentRound(tournament, now);
+  return round === undefined
+    ? (postData.seed ?? seedFromString(`tournament:${tournament.id}`))
+    : seedFromString(`tournament:${tournament.id}:round-${round}`);
+};
+
+/** Whether a score from a run started during the tournament can still be accepted. */
+export const isTournamentSubmissionOpen = (
+  { endsAt }: TournamentConfig,
+  now: number = Date.now()
+): boolean => now < endsAt + TOURNAMENT_SUBMISSION_GRACE_MS;
+
+/** Creates a tournament post and schedules its standings to be published when it closes. */
+export const createTournamentPost = async ({
+  title,
+  startsAt,
+  endsAt,
+  attemptsPerUser,
+  roundMs,
+}: CreateTournamentOptions) => {
+  const tournament: TournamentConfig = { id: randomUUID(), startsAt, endsAt, attemptsPerUser };
+  const postData: GamePostData = { ...DEFAULT_POST_DATA, mode: 'tournament', tournament };
+  if (roundMs === undefined) {
+    postData.seed = createSeed();
+  } else {
+    tournament.roundMs = roundMs;
+  }
+
+  const post = await createPost({ title, postData });
+  await redis.zAdd(OPEN_TOURNAMENTS_KEY, { member: post.id, score: endsAt });
+  return post;
+};
+
+export const getAttemptsUsed = async (postId: string, userId: string): Promise<number> =>
+  Number((await redis.hGet(attemptsKey(postId), userId)) ?? 0);
+
+/**
+ * Counts a run against the player's attempts if the tournament is open and they
+ * have attempts left. Attempts are spent when a run starts, so restarting a bad
+ * run costs one too.
+ */
+export const startTournamentAttempt = async (
+  postId: string,
+  userId: string,
+  tournament: TournamentConfig,
+  now: number = Date.now()
+): Promise<TournamentAttempt> => {
+  const status = getTournamentStatus(tournament, now);
+  if (status === 'upcoming') {
+    return { allowed: false, reason: 'The tournament has not started yet' };
+  }
+  if (status === 'closed') {
+    return { allowed: false, reason: 'The tournament has ended' };
+  }
+
+  const attemptsUsed = await redis.hIncrBy(attemptsKey(postId), userId, 1);
+  if (attemptsUsed > tournament.attemptsPerUser) {
+    return { allowed: false, reason: 'You have used all your tournament attempts' };
+  }
+  return { allowed: true, attemptsUsed };
+};
+
+export const getTournamentResults = async (
+  postId: string
+): Promise<TournamentResults | undefined> => {
+  const stored = await redis.get(resultsKey(postId));
+  return stored ? (JSON.parse(stored) as TournamentResults) : undefined;
+};
+
+/** Markdown comment announcing a tournament's final standings. */
+export const formatStandings = ({ standings, totalPlayers }: TournamentResults): string => {
+  const medals = ['🥇', '🥈', '🥉'];
+  const rows = standings.map(
+    ({ rank, username, score }) =>
+      `| ${medals[rank - 1] ?? `#${rank}`} | u/${username} | ${score.toLocaleString('en-US')} |`
+  );
+
+  return [
+    '🏁 **The tournament is over! Final standings:**',
+    '',
+    ...(rows.length > 0
+      ? ['| Rank | Player | Score |', '|:--|:--|--:|', ...rows]
+      : ['Nobody set a score this time.']),
+    '',
+    `${totalPlayers.toLocaleString('en-US')} ${totalPlayers === 1 ? 'player' : 'players'} took part. Happy Diwali! 🪔`,
+  ].join('\n');
+};
+
+/**
+ * Publishes the final standings of every tournament whose submission window has
+ * closed. A tournament whose comment fails stays open and is retried next time.
+ * Returns the ids of the posts that were closed.
+ */
+export const closeEndedTournaments = async (now: number = Date.now()): Promise<string[]> => {
+  const ended = await redis.zRange(OPEN_TOURNAMENTS_KEY, 0, now - TOURNAMENT_SUBMISSION_GRACE_MS, {
+    by: 'score',
+  });
+
+  const closed: string[] = [];
+  for (const { member: postId } of ended) {
+    try {
+      const key = postLeaderboardKey(postId);
+      const results: TournamentResults = {
+        closedAt: now,
+        standings: await getTopEntries(key, STANDINGS_LIMIT),
+        totalPlayers: await getLeaderboardSize(key),
+      };
+
+      await reddit.submitComment({
+        id: postId as `t3_${string}`,
+        text: formatStandings(results),
+        runAs: 'APP',
+      });
+      await redis.set(resultsKey(postId), JSON.stringify(results));
+      await redis.zRem(OPEN_TOURNAMENTS_KEY, [postId]);
+      closed.push(postId);
+    } catch (error) {
+      console.error(`Error closing tournament ${postId}: ${error}`);
+    }
+  }
+  return closed;
+};
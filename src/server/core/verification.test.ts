@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GAMEPLAY_SETTINGS,
+  DEFAULT_POST_DATA,
+  runRulesForPost,
+} from '../../shared/post-data';
+import { RunInput, RunSimulation } from '../../shared/simulation/run-simulation';
+import { SIMULATION_STEP } from '../../shared/simulation/rules';
+import { RunStart, verifyRun } from './verification';
+
+const SEED = 777;
+
+/** Plays a run to game over, changing lanes now and then and sliding under torans. */
+const playRun = () => {
+  const simulation = new RunSimulation(SEED, runRulesForPost(DEFAULT_POST_DATA));
+  const inputs: RunInput[] = [];
+  let turn = 0;
+  while (!simulation.gameOver) {
+    const { tick } = simulation;
+    const lane = turn++ % 2 === 0 ? 'left' : 'right';
+    if (tick % 45 === 0 && simulation.applyInput(lane)) {
+      inputs.push({ tick, action: lane });
+    }
+    const toran = simulation.obstacles.some(
+      ({ type, lane, z }) =>
+        type === 'toran' && lane === simulation.player.lane && z < 0 && z > -2.2
+    );
+    if (toran && simulation.applyInput('slide')) {
+      inputs.push({ tick, action: 'slide' });
+    }
+    simulation.step();
+  }
+  return {
+    score: simulation.score,
+    run: { seed: SEED, inputs, ticks: simulation.tick },
+    summary: simulation.summary,
+  };
+};
+
+const played = playRun();
+
+/** A session started just long enough before `now` for the whole run to fit. */
+const NOW = 10_000_000;
+const session: RunStart = {
+  seed: SEED,
+  startedAt: NOW - played.run.ticks * SIMULATION_STEP * 1000,
+  gameplay: DEFAULT_GAMEPLAY_SETTINGS,
+};
+
+const verify = (submission = played, start = session) =>
+  verifyRun(submission, start, DEFAULT_POST_DATA, NOW);
+
+describe('verifyRun', () => {
+  it('accepts a run whose replay matches its score and summary', () => {
+    expect(played.run.inputs.length).toBeGreaterThan(0);
+    expect(verify()).toEqual({ valid: true });
+  });
+
+  it('rejects a run whose inputs were changed', () => {
+    const inputs = played.run.inputs.slice(0, Math.floor(played.run.inputs.length / 2));
+    expect(verify({ ...played, run: { ...played.run, inputs } }).valid).toBe(false);
+  });
+
+  it('rejects a run whose score was raised', () => {
+    expect(verify({ ...played, score: played.score + 1 })).toEqual({
+      valid: false,
+      reason: 'score does not match the replayed run',
+    });
+  });
+
+  it('rejects a run played with another seed than its session', () => {
+    expect(verify(played, { ...session, seed: SEED + 1 })).toEqual({
+      valid: false,
+      reason: "run seed does not match its session's seed",
+    });
+  });
+
+  it("replays under the session's gameplay settings", () => {
+    const gameplay = {
+      ...DEFAULT_GAMEPLAY_SETTINGS,
+      collectibleValues: { coin: 1, diya: 1, phooljhadi: 1, rangoli: 1 },
+    };
+    expect(verify(played, { ...session, gameplay }).valid).toBe(false);
+  });
+});
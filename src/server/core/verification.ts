@@ -0,0 +1,184 @@
+import { DEFAULT_POST_DATA, runRulesForPost } from '../../shared/post-data';
+import { isValidSeed } from '../../shared/simulation/random';
+import {
+  COLLECTIBLE_TYPES,
+  LANE_POSITIONS,
+  RunRules,
+  SIMULATION_STEP,
+} from '../../shared/simulation/rules';
+import {
+  RUN_ACTIONS,
+  RunAction,
+  RunInput,
+  RunRecord,
+  RunSummary,
+  simulateRun,
+} from '../../shared/simulation/run-simulation';
+import { maxSegmentCollectibles, RANDOM_WAVE_SEGMENT } from '../../shared/simulation/segments';
+import { GameplaySettings, SaveScoreRequest } from '../../shared/types/api';
+import { GamePostData } from '../../shared/types/post';
+
+/** One hour of play; anything longer is rejected without simulating. */
+export const MAX_RUN_TICKS = Math.round((60 * 60) / SIMULATION_STEP);
+
+/** Generous upper bound on how fast a human can press keys or swipe. */
+const MAX_INPUTS_PER_SECOND = 20;
+
+/** Clock slack between the server issuing a session and the client starting its run. */
+const SESSION_CLOCK_TOLERANCE_MS = 2000;
+
+/** When, with which seed and under which gameplay settings the server let a run start. */
+export interface RunStart {
+  seed: number;
+  startedAt: number;
+  gameplay: GameplaySettings;
+}
+
+export type RunVerification = { valid: true } | { valid: false; reason: string };
+
+const isRunAction = (value: unknown): value is RunAction =>
+  typeof value === 'string' && (RUN_ACTIONS as readonly string[]).includes(value);
+
+const isRunInput = (value: unknown): value is RunInput => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { tick, action } = value as Record<string, unknown>;
+  return typeof tick === 'number' && Number.isInteger(tick) && tick >= 0 && isRunAction(action);
+};
+
+/** Narrows an untrusted request body field to a well-formed run record. */
+export const parseRunRecord = (value: unknown): RunRecord | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { seed, inputs, ticks } = value as Record<string, unknown>;
+
+  if (!isValidSeed(seed)) return undefined;
+  if (typeof ticks !== 'number' || !Number.isInteger(ticks) || ticks <= 0) return undefined;
+  if (!Array.isArray(inputs) || !inputs.every(isRunInput)) return undefined;
+
+  return { seed, inputs, ticks };
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/** Narrows an untrusted request body field to a well-formed run summary. */
+export const parseRunSummary = (value: unknown): RunSummary | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { distance, timeSurvivedMs, topSpeed, obstaclesHit, collectibles } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (
+    !isCount(distance) ||
+    !isCount(timeSurvivedMs) ||
+    !isCount(topSpeed) ||
+    !isCount(obstaclesHit)
+  ) {
+    return undefined;
+  }
+  if (typeof collectibles !== 'object' || collectibles === null) return undefined;
+
+  const counts = collectibles as Record<string, unknown>;
+  if (!COLLECTIBLE_TYPES.every((type) => isCount(counts[type]))) return undefined;
+
+  return {
+    distance,
+    timeSurvivedMs,
+    topSpeed,
+    obstaclesHit,
+    collectibles: Object.fromEntries(
+      COLLECTIBLE_TYPES.map((type) => [type, counts[type]])
+    ) as RunSummary['collectibles'],
+  };
+};
+
+/**
+ * Highest score any run can reach in `seconds`: full survival points plus a
+ * segment starting as often as the gaps between them ever allow, each one
+ * spawning as many collectibles as the fullest segment can, all of them the most
+ * valuable type and picked up under a score multiplier.
+ */
+const maxScoreForDuration = (seconds: number, rules: RunRules): number => {
+  const survival = Math.floor(seconds * rules.survivalPointsPerSecond);
+  const segments = Math.floor(seconds / rules.minSpawnInterval) + 1;
+  const perSegment = maxSegmentCollectibles(
+    [...rules.segments, RANDOM_WAVE_SEGMENT],
+    LANE_POSITIONS.length
+  );
+  const multiplier = Math.max(1, rules.powerUps.multiplier.strength);
+  const bestValue = Math.max(
+    0,
+    ...rules.allowedCollectibles.map((type) =>
+      Math.round(rules.collectibleValues[type] * multiplier)
+    )
+  );
+  return survival + segments * perSegment * bestValue;
+};
+
+const isSameSummary = (a: RunSummary, b: RunSummary): boolean =>
+  a.distance === b.distance &&
+  a.timeSurvivedMs === b.timeSurvivedMs &&
+  a.topSpeed === b.topSpeed &&
+  a.obstaclesHit === b.obstaclesHit &&
+  COLLECTIBLE_TYPES.every((type) => a.collectibles[type] === b.collectibles[type]);
+
+/**
+ * Re-simulates `run` with the rules of the post it was played on, under the
+ * gameplay settings its session started with, and checks that
+ * it ends in a game over on its final tick with exactly `score` points and the
+ * submitted summary. The run must use its session's seed and fit, along with its
+ * score, into the time since the session started. Posts with a fixed seed (daily
+ * challenges) only accept runs with that seed.
+ */
+export const verifyRun = (
+  { score, run, summary }: Pick<SaveScoreRequest, 'score' | 'run' | 'summary'>,
+  session: RunStart,
+  postData: GamePostData = DEFAULT_POST_DATA,
+  now: number = Date.now()
+): RunVerification => {
+  if (postData.seed !== undefined && run.seed !== postData.seed) {
+    return { valid: false, reason: "run seed does not match the post's seed" };
+  }
+  if (run.seed !== session.seed) {
+    return { valid: false, reason: "run seed does not match its session's seed" };
+  }
+
+  if (run.ticks > MAX_RUN_TICKS) {
+    return { valid: false, reason: 'run is too long' };
+  }
+
+  // Cheap bounds first, so impossible claims never reach the simulation
+  const elapsedSeconds = (now - session.startedAt + SESSION_CLOCK_TOLERANCE_MS) / 1000;
+  if (run.ticks * SIMULATION_STEP > elapsedSeconds) {
+    return { valid: false, reason: 'run is longer than the time since it started' };
+  }
+  const rules = runRulesForPost(postData, session.gameplay);
+  if (score > maxScoreForDuration(elapsedSeconds, rules)) {
+    return { valid: false, reason: 'score is impossible for the time since the run started' };
+  }
+
+  const maxInputs = Math.ceil(run.ticks * SIMULATION_STEP * MAX_INPUTS_PER_SECOND);
+  if (run.inputs.length > maxInputs) {
+    return { valid: false, reason: 'too many inputs' };
+  }
+
+  for (let i = 0; i < run.inputs.length; i++) {
+    const input = run.inputs[i]!;
+    if (input.tick >= run.ticks || (i > 0 && input.tick < run.inputs[i - 1]!.tick)) {
+      return { valid: false, reason: 'input log is out of order' };
+    }
+  }
+
+  const simulation = simulateRun(run, rules);
+  if (!simulation.gameOver || simulation.tick !== run.ticks) {
+    return { valid: false, reason: 'run does not end where it was submitted' };
+  }
+  if (simulation.score !== score) {
+    return { valid: false, reason: 'score does not match the replayed run' };
+  }
+  if (!isSameSummary(simulation.summary, summary)) {
+    return { valid: false, reason: 'run summary does not match the replayed run' };
+  }
+
+  return { valid: true };
+};
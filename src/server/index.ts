@@ -1,11 +1,8 @@
-// Minimal Devvit server - the game runs entirely client-side
-// This file exists to satisfy Devvit's architecture requirements
+import { createServer, getServerPort } from '@devvit/web/server';
+import { createApp } from './app';
 
-export default function handler() {
-  // The Three.js game runs entirely in the client
-  // No server-side logic needed for this implementation
-  return new Response('Diwali Night Runner Server', {
-    status: 200,
-    headers: { 'Content-Type': 'text/plain' }
-  });
-}
\ No newline at end of file
+const app = createApp();
+
+const server = createServer(app);
+server.on('error', (err) => console.error(`server error; ${err.stack}`));
+server.listen(getServerPort());
@@ -0,0 +1,161 @@
+// Local stand-in for `@devvit/web/server`. The local build aliases the real module
+// to this file, so route and core code run unchanged outside `devvit playtest`.
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { NextFunction, Request, Response } from 'express';
+import { MemoryRedis } from './memory-redis';
+
+/** Header naming the fake current user; `anonymous` simulates a logged-out user. */
+export const LOCAL_USER_HEADER = 'x-local-user';
+/** Header naming the post the request is made from. */
+export const LOCAL_POST_HEADER = 'x-local-post-id';
+
+const DEFAULT_USERNAME = process.env.LOCAL_USER ?? 'local_runner';
+const DEFAULT_POST_ID = 't3_local';
+const SUBREDDIT_NAME = 'diwali_run_local';
+/** Comma-separated usernames that moderate the local subreddit. */
+const MODERATORS = (process.env.LOCAL_MODERATORS ?? DEFAULT_USERNAME)
+  .split(',')
+  .map((username) => username.trim().toLowerCase());
+
+type LocalPost = {
+  id: string;
+  title: string;
+  postData?: Record<string, unknown>;
+  stickied: boolean;
+};
+
+type LocalRequestContext = {
+  username?: string;
+  postId: string;
+};
+
+type SetUserFlairOptions = {
+  subredditName: string;
+  username: string;
+  text?: string;
+  cssClass?: string;
+  flairTemplateId?: string;
+};
+
+const storage = new AsyncLocalStorage<LocalRequestContext>();
+const posts = new Map<string, LocalPost>([
+  [DEFAULT_POST_ID, { id: DEFAULT_POST_ID, title: 'diwali-run', stickied: false }],
+]);
+
+/** User flair in the local subreddit, by username. */
+const userFlairs = new Map<string, { flairText?: string; flairCssClass?: string }>();
+
+let nextCommentNumber = 1;
+let nextPostNumber = 1;
+
+const current = (): LocalRequestContext =>
+  storage.getStore() ?? { username: DEFAULT_USERNAME, postId: DEFAULT_POST_ID };
+
+/** Reads the fake user and post headers and exposes them through `context`. */
+export const localContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  const userHeader = req.header(LOCAL_USER_HEADER)?.trim() || DEFAULT_USERNAME;
+  const username = userHeader === 'anonymous' ? undefined : userHeader;
+  const postId = req.header(LOCAL_POST_HEADER)?.trim() || DEFAULT_POST_ID;
+  storage.run({ username, postId }, next);
+};
+
+export const redis = new MemoryRedis();
+
+/** App settings, as a JSON object of setting name to value; unset ones use their defaults. */
+const appSettings = JSON.parse(process.env.LOCAL_SETTINGS ?? '{}') as Record<string, unknown>;
+
+export const settings = {
+  async get<T>(name: string): Promise<T | undefined> {
+    return appSettings[name] as T | undefined;
+  },
+
+  async getAll<T extends object>(): Promise<T> {
+    return { ...appSettings } as T;
+  },
+};
+
+export const context = {
+  appName: 'diwali-run',
+  subredditName: SUBREDDIT_NAME,
+  subredditId: 't5_local',
+  get userId() {
+    const { username } = current();
+    return username ? `t2_${username}` : undefined;
+  },
+  get postId() {
+    return current().postId;
+  },
+  get postData() {
+    return posts.get(current().postId)?.postData;
+  },
+};
+
+export const reddit = {
+  async getCurrentUsername(): Promise<string | undefined> {
+    return current().username;
+  },
+
+  async submitCustomPost({
+    title,
+    postData,
+  }: {
+    title: string;
+    postData?: Record<string, unknown>;
+  }) {
+    const post: LocalPost = { id: `t3_local${nextPostNumber++}`, title, postData, stickied: false };
+    posts.set(post.id, post);
+    console.log(`[local] Created post ${post.id} "${title}"`);
+
+    return {
+      id: post.id,
+      title,
+      sticky: async () => {
+        post.stickied = true;
+        console.log(`[local] Stickied post ${post.id}`);
+      },
+    };
+  },
+
+  async getUserByUsername(username: string) {
+    // Every well-formed name exists locally, except this one for testing misses
+    if (username === 'missing_user') return undefined;
+    return {
+      id: `t2_${username}`,
+      username,
+      getUserFlairBySubreddit: async (_subredditName: string) => userFlairs.get(username),
+    };
+  },
+
+  getModerators({ username }: { subredditName: string; username?: string }) {
+    const moderators = MODERATORS.filter(
+      (moderator) => username === undefined || moderator === username.toLowerCase()
+    ).map((moderator) => ({ id: `t2_${moderator}`, username: moderator }));
+    return { all: async () => moderators };
+  },
+
+  async sendPrivateMessage({ to, subject, text }: { to: string; subject: string; text: string }) {
+    console.log(`[local] Messaged u/${to}: ${subject}\n${text}`);
+  },
+
+  async getUserFlairTemplates(_subredditName: string) {
+    return [] as { id: string; text: string }[];
+  },
+
+  async setUserFlair({ username, text, cssClass, flairTemplateId }: SetUserFlairOptions) {
+    userFlairs.set(username, { flairText: text, flairCssClass: cssClass });
+    console.log(
+      `[local] Set flair of u/${username} to "${text ?? ''}" (${flairTemplateId ?? 'no template'})`
+    );
+  },
+
+  async removeUserFlair(_subredditName: string, username: string) {
+    userFlairs.delete(username);
+    console.log(`[local] Removed flair of u/${username}`);
+  },
+
+  async submitComment({ id, text }: { id: string; text: string }) {
+    const comment = { id: `t1_local${nextCommentNumber++}`, parentId: id, body: text };
+    console.log(`[local] Commented ${comment.id} on ${id}:\n${text}`);
+    return comment;
+  },
+};
@@ -0,0 +1,14 @@
+import express from 'express';
+import { createApp } from '../app';
+import { localContextMiddleware } from './devvit-server';
+
+/**
+ * The full `/api/*` and `/internal/*` app backed by in-memory stand-ins for
+ * Devvit's Redis, Reddit and request context. Mounted by the root `server.js`.
+ */
+export const createLocalApi = () => {
+  const app = express();
+  app.use(localContextMiddleware);
+  app.use(createApp());
+  return app;
+};
@@ -0,0 +1,223 @@
+// In-memory stand-in for the Devvit Redis client, covering the commands this app
+// uses. Data lives only as long as the local server process.
+
+type ZMember = { member: string; score: number };
+
+type ZRangeOptions = {
+  by: 'rank' | 'score';
+  reverse?: boolean;
+  limit?: { offset: number; count: number };
+};
+
+type StoredValue =
+  | { type: 'string'; value: string }
+  | { type: 'hash'; value: Map<string, string> }
+  | { type: 'zset'; value: Map<string, number> };
+
+type Entry = StoredValue & { expiresAt?: number };
+
+export class MemoryRedis {
+  private store = new Map<string, Entry>();
+
+  private read(key: string): Entry | undefined {
+    const entry = this.store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private readAs<T extends StoredValue['type']>(
+    key: string,
+    type: T
+  ): Extract<Entry, { type: T }> | undefined {
+    const entry = this.read(key);
+    if (entry && entry.type !== type) {
+      throw new Error(`WRONGTYPE ${key} holds a ${entry.type}, not a ${type}`);
+    }
+    return entry as Extract<Entry, { type: T }> | undefined;
+  }
+
+  private hash(key: string): Map<string, string> {
+    const entry = this.readAs(key, 'hash');
+    if (entry) return entry.value;
+    const value = new Map<string, string>();
+    this.store.set(key, { type: 'hash', value });
+    return value;
+  }
+
+  private zset(key: string): Map<string, number> {
+    const entry = this.readAs(key, 'zset');
+    if (entry) return entry.value;
+    const value = new Map<string, number>();
+    this.store.set(key, { type: 'zset', value });
+    return value;
+  }
+
+  /** Members sorted ascending by score, then lexically, like Redis. */
+  private sortedMembers(key: string): ZMember[] {
+    const entries = [...(this.readAs(key, 'zset')?.value ?? new Map<string, number>())];
+    return entries
+      .map(([member, score]) => ({ member, score }))
+      .sort(
+        (a, b) => a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0)
+      );
+  }
+
+  private deleteIfEmpty(key: string, size: number): void {
+    if (size === 0) this.store.delete(key);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return this.readAs(key, 'string')?.value;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options?: { nx?: boolean; xx?: boolean; expiration?: Date }
+  ): Promise<string> {
+    const exists = this.read(key) !== undefined;
+    if ((options?.nx && exists) || (options?.xx && !exists)) {
+      return '';
+    }
+    this.store.set(key, { type: 'string', value, expiresAt: options?.expiration?.getTime() });
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    keys.forEach((key) => this.store.delete(key));
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.read(key) !== undefined).length;
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    const entry = this.read(key);
+    if (entry) entry.expiresAt = Date.now() + seconds * 1000;
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    const next = Number((await this.get(key)) ?? 0) + value;
+    const expiresAt = this.read(key)?.expiresAt;
+    this.store.set(key, { type: 'string', value: String(next), expiresAt });
+    return next;
+  }
+
+  async hGet(key: string, field: string): Promise<string | undefined> {
+    return this.readAs(key, 'hash')?.value.get(field);
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.readAs(key, 'hash')?.value ?? []);
+  }
+
+  async hKeys(key: string): Promise<string[]> {
+    return [...(this.readAs(key, 'hash')?.value.keys() ?? [])];
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    const hash = this.hash(key);
+    let added = 0;
+    for (const [field, value] of Object.entries(fieldValues)) {
+      if (!hash.has(field)) added++;
+      hash.set(field, value);
+    }
+    return added;
+  }
+
+  async hSetNX(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hash(key);
+    if (hash.has(field)) return 0;
+    hash.set(field, value);
+    return 1;
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<number> {
+    const hash = this.hash(key);
+    const next = Number(hash.get(field) ?? 0) + value;
+    hash.set(field, String(next));
+    return next;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    const hash = this.readAs(key, 'hash')?.value;
+    if (!hash) return 0;
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    this.deleteIfEmpty(key, hash.size);
+    return removed;
+  }
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<number> {
+    const zset = this.zset(key);
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!zset.has(member)) added++;
+      zset.set(member, score);
+    }
+    return added;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    const zset = this.zset(key);
+    const next = (zset.get(member) ?? 0) + value;
+    zset.set(member, next);
+    return next;
+  }
+
+  async zScore(key: string, member: string): Promise<number | undefined> {
+    return this.readAs(key, 'zset')?.value.get(member);
+  }
+
+  async zRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sortedMembers(key).findIndex((entry) => entry.member === member);
+    return rank === -1 ? undefined : rank;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.readAs(key, 'zset')?.value.size ?? 0;
+  }
+
+  async zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options: ZRangeOptions = { by: 'rank' }
+  ): Promise<ZMember[]> {
+    let members = this.sortedMembers(key);
+    if (options.reverse) members.reverse();
+
+    if (options.by === 'score') {
+      const [min, max] = options.reverse ? [stop, start] : [start, stop];
+      members = members.filter(({ score }) => score >= Number(min) && score <= Number(max));
+    } else {
+      const size = members.length;
+      const from = Math.max(0, Number(start) < 0 ? size + Number(start) : Number(start));
+      const to = Number(stop) < 0 ? size + Number(stop) : Number(stop);
+      members = members.slice(from, to + 1);
+    }
+
+    if (options.limit) {
+      members = members.slice(options.limit.offset, options.limit.offset + options.limit.count);
+    }
+    return members;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const zset = this.readAs(key, 'zset')?.value;
+    if (!zset) return 0;
+    const removed = members.filter((member) => zset.delete(member)).length;
+    this.deleteIfEmpty(key, zset.size);
+    return removed;
+  }
+
+  async zRemRangeByRank(key: string, start: number, stop: number): Promise<number> {
+    const removed = await this.zRange(key, start, stop, { by: 'rank' });
+    return this.zRem(
+      key,
+      removed.map(({ member }) => member)
+    );
+  }
+}
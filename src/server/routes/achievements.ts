@@ -0,0 +1,27 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { AchievementsResponse, ErrorResponse } from '../../shared/types/api';
+import { getUnlockedAchievements } from '../core/achievements';
+
+export const achievementsRouter = express.Router();
+
+achievementsRouter.get<unknown, AchievementsResponse | ErrorResponse>(
+  '/api/achievements',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res
+        .status(401)
+        .json({ status: 'error', message: 'You must be logged in to view achievements' });
+      return;
+    }
+
+    try {
+      const unlocked = await getUnlockedAchievements(userId);
+      res.json({ userId, unlocked });
+    } catch (error) {
+      console.error(`Error fetching achievements for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch achievements' });
+    }
+  }
+);
@@ -0,0 +1,111 @@
+import express from 'express';
+import { context, reddit } from '@devvit/web/server';
+import { MenuItemRequest, UiResponse } from '@devvit/web/shared';
+import {
+  AnalyticsResponse,
+  ErrorResponse,
+  RecordTelemetryRequest,
+  RecordTelemetryResponse,
+} from '../../shared/types/api';
+import { isModerator } from '../core/moderation';
+import { consumeTelemetrySubmission } from '../core/rate-limit';
+import { consumeRunSession, RunSessionCheck } from '../core/run-session';
+import {
+  getOrCreateAnalyticsPost,
+  getRunAnalytics,
+  parseRunTelemetry,
+  recordRunTelemetry,
+} from '../core/telemetry';
+
+export const analyticsRouter = express.Router();
+
+// Only runs played in a server session are counted, once each; who played them is not stored
+analyticsRouter.post<unknown, RecordTelemetryResponse | ErrorResponse, RecordTelemetryRequest>(
+  '/api/telemetry',
+  async (req, res): Promise<void> => {
+    const { userId, postId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to send telemetry' });
+      return;
+    }
+
+    const { sessionToken, telemetry: rawTelemetry } = req.body ?? {};
+    if (typeof sessionToken !== 'string' || !sessionToken) {
+      res.status(400).json({ status: 'error', message: 'sessionToken is required' });
+      return;
+    }
+
+    const telemetry = parseRunTelemetry(rawTelemetry);
+    if (!telemetry) {
+      res.status(400).json({ status: 'error', message: 'Invalid run telemetry' });
+      return;
+    }
+
+    let sessionCheck: RunSessionCheck;
+    try {
+      if (!(await consumeTelemetrySubmission(userId))) {
+        res
+          .status(429)
+          .json({ status: 'error', message: 'Too many runs reported, try again in a minute' });
+        return;
+      }
+      sessionCheck = await consumeRunSession(sessionToken, userId, postId, Date.now(), 'telemetry');
+    } catch (error) {
+      console.error(`Error checking run session for telemetry: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to record run telemetry' });
+      return;
+    }
+    if (!sessionCheck.valid) {
+      res
+        .status(403)
+        .json({ status: 'error', message: `Invalid run session: ${sessionCheck.reason}` });
+      return;
+    }
+
+    try {
+      await recordRunTelemetry(telemetry);
+      res.json({ recorded: true });
+    } catch (error) {
+      console.error(`Error recording run telemetry: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to record run telemetry' });
+    }
+  }
+);
+
+analyticsRouter.get<unknown, AnalyticsResponse | ErrorResponse>(
+  '/api/analytics',
+  async (_req, res): Promise<void> => {
+    if (!context.userId) {
+      res.status(401).json({ status: 'error', message: 'Log in to view analytics' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username || !(await isModerator(username))) {
+        res.status(403).json({ status: 'error', message: 'Only moderators can view analytics' });
+        return;
+      }
+
+      res.json({ analytics: await getRunAnalytics() });
+    } catch (error) {
+      console.error(`Error fetching run analytics: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch run analytics' });
+    }
+  }
+);
+
+analyticsRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/analytics-open',
+  async (_req, res): Promise<void> => {
+    try {
+      const postId = await getOrCreateAnalyticsPost();
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${postId}`,
+      });
+    } catch (error) {
+      console.error(`Error opening analytics post: ${error}`);
+      res.json({ showToast: 'Failed to open analytics' });
+    }
+  }
+);
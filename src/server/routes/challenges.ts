@@ -0,0 +1,141 @@
+import express from 'express';
+import { context, reddit } from '@devvit/web/server';
+import { parseGamePostData } from '../../shared/post-data';
+import {
+  ChallengeResponse,
+  ChallengesResponse,
+  CreateChallengeRequest,
+  ErrorResponse,
+} from '../../shared/types/api';
+import {
+  createChallenge,
+  getChallengeRun,
+  getIncomingChallenges,
+  notifyChallengeCreated,
+  parseOpponentName,
+} from '../core/challenge';
+import { consumeChallengeSubmission } from '../core/rate-limit';
+
+export const challengesRouter = express.Router();
+
+challengesRouter.get<unknown, ChallengesResponse | ErrorResponse>(
+  '/api/challenges',
+  async (_req, res): Promise<void> => {
+    const { postId, userId } = context;
+    if (!userId) {
+      res
+        .status(401)
+        .json({ status: 'error', message: 'You must be logged in to view challenges' });
+      return;
+    }
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      const incoming = username ? await getIncomingChallenges(postId, username) : [];
+      res.json({ postId, incoming });
+    } catch (error) {
+      console.error(`Error fetching challenges for ${userId} on ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch challenges' });
+    }
+  }
+);
+
+challengesRouter.post<unknown, ChallengeResponse | ErrorResponse, CreateChallengeRequest>(
+  '/api/challenges',
+  async (req, res): Promise<void> => {
+    const { postId, userId } = context;
+    if (!userId) {
+      res
+        .status(401)
+        .json({ status: 'error', message: 'You must be logged in to challenge someone' });
+      return;
+    }
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    // Challenge runs would bypass the tournament's attempt limit
+    if (parseGamePostData(context.postData).mode === 'tournament') {
+      res.status(409).json({
+        status: 'error',
+        message: 'Challenges cannot be sent from tournament posts',
+      });
+      return;
+    }
+
+    const opponentName = parseOpponentName(req.body?.username);
+    if (!opponentName) {
+      res.status(400).json({ status: 'error', message: 'username must be a Reddit username' });
+      return;
+    }
+
+    try {
+      // Every challenge messages someone, so cap how many one player can send
+      if (!(await consumeChallengeSubmission(userId))) {
+        res.status(429).json({
+          status: 'error',
+          message: 'Too many challenges sent, try again in an hour',
+        });
+        return;
+      }
+
+      const challenger = await reddit.getCurrentUsername();
+      if (!challenger) {
+        res
+          .status(401)
+          .json({ status: 'error', message: 'You must be logged in to challenge someone' });
+        return;
+      }
+      if (challenger.toLowerCase() === opponentName.toLowerCase()) {
+        res.status(400).json({ status: 'error', message: "You can't challenge yourself" });
+        return;
+      }
+
+      const run = await getChallengeRun(postId, userId);
+      if (!run) {
+        res.status(409).json({
+          status: 'error',
+          message: 'Finish a run on this post before challenging someone',
+        });
+        return;
+      }
+
+      const opponent = await reddit.getUserByUsername(opponentName);
+      if (!opponent) {
+        res.status(404).json({ status: 'error', message: `u/${opponentName} does not exist` });
+        return;
+      }
+
+      const challenge = await createChallenge(postId, challenger, opponent.username, run);
+      if (!challenge) {
+        res.status(409).json({
+          status: 'error',
+          message: `You already have an open challenge to u/${opponent.username} on this post`,
+        });
+        return;
+      }
+      // The challenge stands even if the message does not arrive
+      try {
+        await notifyChallengeCreated(challenge);
+      } catch (error) {
+        console.error(
+          `Error notifying ${opponent.username} of challenge ${challenge.id}: ${error}`
+        );
+      }
+
+      res.json({ challenge });
+    } catch (error) {
+      console.error(`Error creating challenge for ${userId} on ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to create challenge' });
+    }
+  }
+);
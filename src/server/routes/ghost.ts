@@ -0,0 +1,33 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { ErrorResponse, GhostRunResponse } from '../../shared/types/api';
+import { getGhostRun } from '../core/ghost';
+
+export const ghostRouter = express.Router();
+
+ghostRouter.get<unknown, GhostRunResponse | ErrorResponse>(
+  '/api/ghost',
+  async (_req, res): Promise<void> => {
+    const { postId, userId } = context;
+    if (!userId) {
+      res
+        .status(401)
+        .json({ status: 'error', message: 'You must be logged in to race your ghost' });
+      return;
+    }
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    try {
+      const ghost = await getGhostRun(postId, userId);
+      res.json({ postId, ghost });
+    } catch (error) {
+      console.error(`Error fetching ghost run for ${userId} on ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch ghost run' });
+    }
+  }
+);
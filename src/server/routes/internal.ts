@@ -0,0 +1,330 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { UiResponse } from '@devvit/web/shared';
+import {
+  DEFAULT_POST_DATA,
+  GAME_THEMES,
+  parseGamePostData,
+  POST_CONFIG_LIMITS,
+  TOURNAMENT_LIMITS,
+} from '../../shared/post-data';
+import { COLLECTIBLE_TYPES, DEFAULT_RUN_RULES } from '../../shared/simulation/rules';
+import { GameplaySettings } from '../../shared/types/api';
+import { createDailyChallengePost } from '../core/daily-challenge';
+import { awardWeeklyFlair } from '../core/flair-rewards';
+import { getGameplaySettings } from '../core/gameplay-settings';
+import { bootstrapInstall } from '../core/install';
+import { createPost } from '../core/post';
+import { getPreviousPeriodId, rolloverLeaderboards } from '../core/subreddit-leaderboard';
+import { closeEndedTournaments, createTournamentPost } from '../core/tournament';
+
+export const internalRouter = express.Router();
+
+internalRouter.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost();
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating post: ${error}`);
+    res.status(400).json({ status: 'error', message: 'Failed to create post' });
+  }
+});
+
+type CustomPostForm = {
+  title?: string;
+  theme?: string[];
+  startingSpeed?: number;
+  lives?: number;
+  spawnInterval?: number;
+  allowedPickups?: string[];
+};
+
+const { startingSpeed, lives, spawnInterval } = POST_CONFIG_LIMITS;
+
+internalRouter.post<unknown, UiResponse>(
+  '/internal/menu/custom-post-create',
+  async (_req, res): Promise<void> => {
+    let gameplay: GameplaySettings;
+    try {
+      gameplay = await getGameplaySettings();
+    } catch (error) {
+      console.error(`Error reading gameplay settings: ${error}`);
+      res.json({ showToast: 'Failed to load gameplay settings' });
+      return;
+    }
+
+    // Tuned posts start from the install's current gameplay settings
+    res.json({
+      showForm: {
+        name: 'customPostForm',
+        form: {
+          title: 'Create a tuned post',
+          acceptLabel: 'Create',
+          fields: [
+            { type: 'string', name: 'title', label: 'Title', defaultValue: 'diwali-run' },
+            {
+              type: 'select',
+              name: 'theme',
+              label: 'Theme',
+              options: GAME_THEMES.map((theme) => ({ label: theme, value: theme })),
+              defaultValue: [DEFAULT_POST_DATA.theme],
+            },
+            {
+              type: 'number',
+              name: 'startingSpeed',
+              label: `Starting speed (${startingSpeed.min}-${startingSpeed.max})`,
+              defaultValue: gameplay.baseSpeed,
+            },
+            {
+              type: 'number',
+              name: 'lives',
+              label: `Lives (${lives.min}-${lives.max})`,
+              defaultValue: gameplay.lives,
+            },
+            {
+              type: 'number',
+              name: 'spawnInterval',
+              label: `Seconds between obstacle waves (${spawnInterval.min}-${spawnInterval.max})`,
+              defaultValue: DEFAULT_RUN_RULES.spawnInterval,
+            },
+            {
+              type: 'select',
+              name: 'allowedPickups',
+              label: 'Allowed pickups, of those enabled in the app settings',
+              options: COLLECTIBLE_TYPES.map((type) => ({ label: type, value: type })),
+              defaultValue: [...gameplay.enabledCollectibles],
+              multiSelect: true,
+            },
+          ],
+        },
+      },
+    });
+  }
+);
+
+internalRouter.post<unknown, UiResponse, CustomPostForm>(
+  '/internal/form/custom-post-create',
+  async (req, res): Promise<void> => {
+    const { title, theme, ...settings } = req.body ?? {};
+    // Out-of-range values are clamped rather than rejected
+    const postData = parseGamePostData({ ...settings, mode: 'endless', theme: theme?.[0] });
+
+    try {
+      const post = await createPost({ title: title?.trim() || undefined, postData });
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      });
+    } catch (error) {
+      console.error(`Error creating custom post: ${error}`);
+      res.json({ showToast: 'Failed to create post' });
+    }
+  }
+);
+
+type TournamentForm = {
+  title?: string;
+  startsAt?: string;
+  endsAt?: string;
+  seedMode?: string[];
+  roundHours?: number;
+  attemptsPerUser?: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TOURNAMENT_DEFAULTS = {
+  title: 'Diwali Weekend Tournament',
+  durationHours: 72,
+  roundHours: 24,
+  attemptsPerUser: 3,
+};
+
+/** Tournament times are entered in UTC, since moderators and players span time zones. */
+const formatUtcDateTime = (time: number): string =>
+  new Date(time).toISOString().slice(0, 16).replace('T', ' ');
+
+const parseUtcDateTime = (value: string | undefined): number | undefined => {
+  const text = value?.trim().replace('T', ' ') ?? '';
+  if (!/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/.test(text)) return undefined;
+  const time = Date.parse(`${text.replace(' ', 'T')}:00Z`);
+  // Reject dates that do not exist, like 02-30, rather than rolling them over
+  return Number.isFinite(time) && formatUtcDateTime(time) === text ? time : undefined;
+};
+
+const { attemptsPerUser, roundHours } = TOURNAMENT_LIMITS;
+
+internalRouter.post<unknown, UiResponse>('/internal/menu/tournament-create', (_req, res): void => {
+  // Default to starting at the next full hour
+  const startsAt = Math.ceil(Date.now() / HOUR_MS) * HOUR_MS;
+  res.json({
+    showForm: {
+      name: 'tournamentForm',
+      form: {
+        title: 'Create a tournament',
+        description:
+          'Players get a limited number of runs between the start and end. Final standings are commented on the post when it ends.',
+        acceptLabel: 'Create',
+        fields: [
+          {
+            type: 'string',
+            name: 'title',
+            label: 'Title',
+            defaultValue: TOURNAMENT_DEFAULTS.title,
+          },
+          {
+            type: 'string',
+            name: 'startsAt',
+            label: 'Starts (UTC, YYYY-MM-DD HH:MM)',
+            defaultValue: formatUtcDateTime(startsAt),
+            required: true,
+          },
+          {
+            type: 'string',
+            name: 'endsAt',
+            label: 'Ends (UTC, YYYY-MM-DD HH:MM)',
+            defaultValue: formatUtcDateTime(startsAt + TOURNAMENT_DEFAULTS.durationHours * HOUR_MS),
+            required: true,
+          },
+          {
+            type: 'select',
+            name: 'seedMode',
+            label: 'Seed',
+            options: [
+              { label: 'One seed for the whole tournament', value: 'fixed' },
+              { label: 'A new seed every round', value: 'per-round' },
+            ],
+            defaultValue: ['fixed'],
+          },
+          {
+            type: 'number',
+            name: 'roundHours',
+            label: `Round length in hours, with a new seed each round (${roundHours.min}-${roundHours.max})`,
+            defaultValue: TOURNAMENT_DEFAULTS.roundHours,
+          },
+          {
+            type: 'number',
+            name: 'attemptsPerUser',
+            label: `Attempts per player (${attemptsPerUser.min}-${attemptsPerUser.max})`,
+            defaultValue: TOURNAMENT_DEFAULTS.attemptsPerUser,
+          },
+        ],
+      },
+    },
+  });
+});
+
+internalRouter.post<unknown, UiResponse, TournamentForm>(
+  '/internal/form/tournament-create',
+  async (req, res): Promise<void> => {
+    const { title, seedMode, ...form } = req.body ?? {};
+    const startsAt = parseUtcDateTime(form.startsAt);
+    const endsAt = parseUtcDateTime(form.endsAt);
+    if (startsAt === undefined || endsAt === undefined) {
+      res.json({ showToast: 'Enter times as YYYY-MM-DD HH:MM in UTC' });
+      return;
+    }
+    if (endsAt <= startsAt || endsAt <= Date.now()) {
+      res.json({ showToast: 'The tournament must end after it starts, and in the future' });
+      return;
+    }
+
+    // Out-of-range numbers are clamped rather than rejected, like tuned posts
+    const clamp = (
+      value: number | undefined,
+      fallback: number,
+      { min, max }: { min: number; max: number }
+    ) => Math.round(Math.min(max, Math.max(min, value ?? fallback)));
+
+    try {
+      const post = await createTournamentPost({
+        title: title?.trim() || TOURNAMENT_DEFAULTS.title,
+        startsAt,
+        endsAt,
+        attemptsPerUser: clamp(
+          form.attemptsPerUser,
+          TOURNAMENT_DEFAULTS.attemptsPerUser,
+          attemptsPerUser
+        ),
+        roundMs:
+          seedMode?.[0] === 'per-round'
+            ? clamp(form.roundHours, TOURNAMENT_DEFAULTS.roundHours, roundHours) * HOUR_MS
+            : undefined,
+      });
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      });
+    } catch (error) {
+      console.error(`Error creating tournament post: ${error}`);
+      res.json({ showToast: 'Failed to create tournament' });
+    }
+  }
+);
+
+internalRouter.post('/internal/on-app-install', async (_req, res): Promise<void> => {
+  try {
+    const { postId, created } = await bootstrapInstall();
+    console.log(
+      created
+        ? `Installed in r/${context.subredditName}, created and stickied post ${postId}`
+        : `Reinstalled in r/${context.subredditName}, keeping existing post ${postId}`
+    );
+    res.json({});
+  } catch (error) {
+    console.error(`Error bootstrapping install: ${error}`);
+    res.status(400).json({ status: 'error', message: 'Failed to bootstrap install' });
+  }
+});
+
+internalRouter.post(
+  '/internal/scheduler/leaderboard-rollover',
+  async (_req, res): Promise<void> => {
+    try {
+      const archived = await rolloverLeaderboards();
+      console.log(`Leaderboard rollover archived ${JSON.stringify(archived)}`);
+
+      // Reward the week that closed last, whatever was archived this time, so an
+      // award that failed is retried on the next run. Each week is only awarded once.
+      const closedWeek = getPreviousPeriodId('weekly');
+      const { awarded, assigned, removed } = await awardWeeklyFlair(closedWeek);
+      if (awarded) {
+        console.log(
+          `Weekly flair for ${closedWeek}: assigned to ${assigned.length}, removed from ${removed.length}`
+        );
+      }
+      res.json({});
+    } catch (error) {
+      console.error(`Error rolling over leaderboards: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to roll over leaderboards' });
+    }
+  }
+);
+
+internalRouter.post('/internal/scheduler/daily-challenge', async (_req, res): Promise<void> => {
+  try {
+    const { challengeDate, postId, created } = await createDailyChallengePost();
+    console.log(
+      created
+        ? `Created daily challenge post ${postId} for ${challengeDate}`
+        : `Daily challenge post ${postId} for ${challengeDate} already exists`
+    );
+    res.json({});
+  } catch (error) {
+    console.error(`Error creating daily challenge post: ${error}`);
+    res.status(500).json({ status: 'error', message: 'Failed to create daily challenge post' });
+  }
+});
+
+internalRouter.post('/internal/scheduler/tournament-close', async (_req, res): Promise<void> => {
+  try {
+    const closed = await closeEndedTournaments();
+    if (closed.length > 0) {
+      console.log(`Published final standings for tournaments ${closed.join(', ')}`);
+    }
+    res.json({});
+  } catch (error) {
+    console.error(`Error closing tournaments: ${error}`);
+    res.status(500).json({ status: 'error', message: 'Failed to close tournaments' });
+  }
+});
@@ -0,0 +1,178 @@
+import express from 'express';
+import { context, reddit } from '@devvit/web/server';
+import {
+  ErrorResponse,
+  LeaderboardArchiveResponse,
+  LeaderboardNeighborsResponse,
+  LeaderboardResponse,
+  PlayerRankResponse,
+  SubredditLeaderboardResponse,
+} from '../../shared/types/api';
+import { getAppSettings } from '../core/install';
+import {
+  DEFAULT_LEADERBOARD_LIMIT,
+  MAX_LEADERBOARD_LIMIT,
+  getLeaderboardSize,
+  getNeighbors,
+  getPlayerRank,
+  getTopEntries,
+  parseLimit,
+  postLeaderboardKey,
+} from '../core/leaderboard';
+import {
+  getArchivedPeriods,
+  getPeriodId,
+  isArchivedPeriod,
+  isLeaderboardWindow,
+  subredditLeaderboardKey,
+} from '../core/subreddit-leaderboard';
+
+const DEFAULT_NEIGHBOR_RADIUS = 2;
+const MAX_NEIGHBOR_RADIUS = 10;
+
+export const leaderboardRouter = express.Router();
+
+leaderboardRouter.get<unknown, LeaderboardResponse | ErrorResponse>(
+  '/api/leaderboard',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    try {
+      const { leaderboardLimit } = await getAppSettings();
+      const limit = parseLimit(req.query.limit, leaderboardLimit, MAX_LEADERBOARD_LIMIT);
+      const key = postLeaderboardKey(postId);
+      const [entries, totalPlayers] = await Promise.all([
+        getTopEntries(key, limit),
+        getLeaderboardSize(key),
+      ]);
+      res.json({ postId, entries, totalPlayers });
+    } catch (error) {
+      console.error(`Error fetching leaderboard for ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch leaderboard' });
+    }
+  }
+);
+
+leaderboardRouter.get<unknown, PlayerRankResponse | ErrorResponse>(
+  '/api/leaderboard/me',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res
+          .status(401)
+          .json({ status: 'error', message: 'You must be logged in to view your rank' });
+        return;
+      }
+
+      const key = postLeaderboardKey(postId);
+      const [player, totalPlayers] = await Promise.all([
+        getPlayerRank(key, username),
+        getLeaderboardSize(key),
+      ]);
+      res.json({ postId, username, ...player, totalPlayers });
+    } catch (error) {
+      console.error(`Error fetching rank for ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch rank' });
+    }
+  }
+);
+
+leaderboardRouter.get<unknown, LeaderboardNeighborsResponse | ErrorResponse>(
+  '/api/leaderboard/around-me',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    const radius = parseLimit(req.query.radius, DEFAULT_NEIGHBOR_RADIUS, MAX_NEIGHBOR_RADIUS);
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res
+          .status(401)
+          .json({ status: 'error', message: 'You must be logged in to view your rank' });
+        return;
+      }
+
+      const neighbors = await getNeighbors(postLeaderboardKey(postId), username, radius);
+      res.json({ postId, username, ...neighbors });
+    } catch (error) {
+      console.error(`Error fetching neighbors for ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch leaderboard' });
+    }
+  }
+);
+
+leaderboardRouter.get<{ window: string }, SubredditLeaderboardResponse | ErrorResponse>(
+  '/api/leaderboard/subreddit/:window',
+  async (req, res): Promise<void> => {
+    const { window } = req.params;
+    if (!isLeaderboardWindow(window)) {
+      res.status(400).json({ status: 'error', message: `Unknown leaderboard window: ${window}` });
+      return;
+    }
+
+    const currentPeriodId = getPeriodId(window);
+    const periodId = typeof req.query.period === 'string' ? req.query.period : currentPeriodId;
+
+    try {
+      const { leaderboardLimit } = await getAppSettings();
+      const limit = parseLimit(req.query.limit, leaderboardLimit, MAX_LEADERBOARD_LIMIT);
+      if (periodId !== currentPeriodId && !(await isArchivedPeriod(window, periodId))) {
+        res.status(404).json({ status: 'error', message: `Unknown ${window} period: ${periodId}` });
+        return;
+      }
+
+      const key = subredditLeaderboardKey(window, periodId);
+      const [entries, totalPlayers] = await Promise.all([
+        getTopEntries(key, limit),
+        getLeaderboardSize(key),
+      ]);
+      res.json({ window, periodId, entries, totalPlayers });
+    } catch (error) {
+      console.error(`Error fetching ${window} leaderboard ${periodId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch leaderboard' });
+    }
+  }
+);
+
+leaderboardRouter.get<{ window: string }, LeaderboardArchiveResponse | ErrorResponse>(
+  '/api/leaderboard/subreddit/:window/archive',
+  async (req, res): Promise<void> => {
+    const { window } = req.params;
+    if (!isLeaderboardWindow(window)) {
+      res.status(400).json({ status: 'error', message: `Unknown leaderboard window: ${window}` });
+      return;
+    }
+
+    const limit = parseLimit(req.query.limit, DEFAULT_LEADERBOARD_LIMIT, MAX_LEADERBOARD_LIMIT);
+
+    try {
+      const periods = await getArchivedPeriods(window, limit);
+      res.json({ window, periods });
+    } catch (error) {
+      console.error(`Error fetching ${window} leaderboard archive: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch leaderboard archive' });
+    }
+  }
+);
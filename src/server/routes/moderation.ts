@@ -0,0 +1,320 @@
+import express from 'express';
+import { context, reddit } from '@devvit/web/server';
+import { MenuItemRequest, UiResponse } from '@devvit/web/shared';
+import { getAppSettings, updateAppSettings } from '../core/install';
+import {
+  banFromLeaderboards,
+  FlaggedScore,
+  getFlaggedScores,
+  parseUsername,
+  recordAuditLog,
+  removeLeaderboardEntry,
+  resetPostLeaderboard,
+  resolveUsername,
+} from '../core/moderation';
+
+export const moderationRouter = express.Router();
+
+const FLAGGED_SCORES_LIMIT = 25;
+
+type ResetLeaderboardForm = { confirm?: boolean };
+type RemoveEntryForm = { username?: string };
+type BanUserForm = { username?: string; reason?: string };
+type FlairRewardsForm = {
+  top3FlairText?: string;
+  top3FlairTemplateId?: string[];
+  top10FlairText?: string;
+  top10FlairTemplateId?: string[];
+};
+
+/** Select value for "no flair template"; form selects cannot carry an empty value. */
+const NO_FLAIR_TEMPLATE = 'none';
+
+const getModerator = async (): Promise<string> =>
+  (await reddit.getCurrentUsername()) ?? context.userId ?? 'unknown';
+
+const formatFlaggedScore = ({ at, username, userId, score, reason, postId }: FlaggedScore) =>
+  `${new Date(at).toISOString()} u/${username ?? userId}: ${score} on ${postId ?? 'unknown post'} (${reason})`;
+
+moderationRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/leaderboard-reset',
+  (_req, res): void => {
+    res.json({
+      showForm: {
+        name: 'resetLeaderboardForm',
+        form: {
+          title: 'Reset leaderboard',
+          description: "Removes every entry from this post's leaderboard. This cannot be undone.",
+          acceptLabel: 'Reset',
+          fields: [
+            {
+              type: 'boolean',
+              name: 'confirm',
+              label: 'I understand all entries will be removed',
+            },
+          ],
+        },
+      },
+    });
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, ResetLeaderboardForm>(
+  '/internal/form/leaderboard-reset',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.json({ showToast: 'This action is only available on a post' });
+      return;
+    }
+    if (!req.body?.confirm) {
+      res.json({ showToast: 'Leaderboard was not reset' });
+      return;
+    }
+
+    try {
+      await resetPostLeaderboard(postId);
+      await recordAuditLog({
+        action: 'reset-leaderboard',
+        moderator: await getModerator(),
+        target: postId,
+      });
+      res.json({ showToast: { text: 'Leaderboard reset', appearance: 'success' } });
+    } catch (error) {
+      console.error(`Error resetting leaderboard for ${postId}: ${error}`);
+      res.json({ showToast: 'Failed to reset leaderboard' });
+    }
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/leaderboard-remove-entry',
+  (_req, res): void => {
+    res.json({
+      showForm: {
+        name: 'removeEntryForm',
+        form: {
+          title: 'Remove leaderboard entry',
+          acceptLabel: 'Remove',
+          fields: [{ type: 'string', name: 'username', label: 'Username', required: true }],
+        },
+      },
+    });
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, RemoveEntryForm>(
+  '/internal/form/leaderboard-remove-entry',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    const typed = parseUsername(req.body?.username);
+    if (!postId || !typed) {
+      res.json({ showToast: 'A post and username are required' });
+      return;
+    }
+
+    try {
+      // Entries are stored under Reddit's spelling of the name, whatever was typed
+      const username = await resolveUsername(typed);
+      if (!username) {
+        res.json({ showToast: `u/${typed} does not exist` });
+        return;
+      }
+
+      const removed = await removeLeaderboardEntry(postId, username);
+      if (!removed) {
+        res.json({ showToast: `u/${username} has no entry on this leaderboard` });
+        return;
+      }
+
+      await recordAuditLog({
+        action: 'remove-entry',
+        moderator: await getModerator(),
+        target: username,
+        details: postId,
+      });
+      res.json({ showToast: { text: `Removed u/${username}`, appearance: 'success' } });
+    } catch (error) {
+      console.error(`Error removing ${typed} from leaderboard for ${postId}: ${error}`);
+      res.json({ showToast: 'Failed to remove leaderboard entry' });
+    }
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/leaderboard-ban',
+  (_req, res): void => {
+    res.json({
+      showForm: {
+        name: 'banUserForm',
+        form: {
+          title: 'Ban user from leaderboards',
+          description:
+            'Banned users can still play, but their scores never appear on leaderboards.',
+          acceptLabel: 'Ban',
+          fields: [
+            { type: 'string', name: 'username', label: 'Username', required: true },
+            { type: 'paragraph', name: 'reason', label: 'Reason' },
+          ],
+        },
+      },
+    });
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, BanUserForm>(
+  '/internal/form/leaderboard-ban',
+  async (req, res): Promise<void> => {
+    const typed = parseUsername(req.body?.username);
+    if (!typed) {
+      res.json({ showToast: 'A username is required' });
+      return;
+    }
+
+    try {
+      const username = await resolveUsername(typed);
+      if (!username) {
+        res.json({ showToast: `u/${typed} does not exist` });
+        return;
+      }
+
+      const moderator = await getModerator();
+      const reason = req.body?.reason?.trim() || undefined;
+      await banFromLeaderboards(username, { moderator, reason });
+      await recordAuditLog({ action: 'ban-user', moderator, target: username, details: reason });
+      res.json({
+        showToast: { text: `u/${username} is banned from leaderboards`, appearance: 'success' },
+      });
+    } catch (error) {
+      console.error(`Error banning ${typed} from leaderboards: ${error}`);
+      res.json({ showToast: 'Failed to ban user' });
+    }
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/flagged-scores',
+  async (_req, res): Promise<void> => {
+    try {
+      const flagged = await getFlaggedScores(FLAGGED_SCORES_LIMIT);
+      await recordAuditLog({ action: 'view-flagged-scores', moderator: await getModerator() });
+
+      if (flagged.length === 0) {
+        res.json({ showToast: 'No flagged scores' });
+        return;
+      }
+
+      res.json({
+        showForm: {
+          name: 'flaggedScoresForm',
+          form: {
+            title: 'Flagged scores',
+            description: `The ${flagged.length} most recent scores that failed verification.`,
+            acceptLabel: 'Done',
+            fields: [
+              {
+                type: 'paragraph',
+                name: 'scores',
+                label: 'Flagged scores',
+                defaultValue: flagged.map(formatFlaggedScore).join('\n'),
+                disabled: true,
+              },
+            ],
+          },
+        },
+      });
+    } catch (error) {
+      console.error(`Error fetching flagged scores: ${error}`);
+      res.json({ showToast: 'Failed to load flagged scores' });
+    }
+  }
+);
+
+moderationRouter.post<unknown, UiResponse>('/internal/form/flagged-scores', (_req, res): void => {
+  res.json({});
+});
+
+moderationRouter.post<unknown, UiResponse, MenuItemRequest>(
+  '/internal/menu/flair-rewards',
+  async (_req, res): Promise<void> => {
+    try {
+      const [settings, templates] = await Promise.all([
+        getAppSettings(),
+        reddit.getUserFlairTemplates(context.subredditName),
+      ]);
+      const templateOptions = [
+        { label: 'No template (text only)', value: NO_FLAIR_TEMPLATE },
+        ...templates.map((template) => ({
+          label: template.text || template.id,
+          value: template.id,
+        })),
+      ];
+
+      res.json({
+        showForm: {
+          name: 'flairRewardsForm',
+          form: {
+            title: 'Weekly flair rewards',
+            description:
+              'Flair given to the top players when each weekly leaderboard closes. Leave the text empty and pick no template to turn a tier off.',
+            acceptLabel: 'Save',
+            fields: [
+              {
+                type: 'string',
+                name: 'top3FlairText',
+                label: 'Top 3 flair text',
+                defaultValue: settings.top3FlairText,
+              },
+              {
+                type: 'select',
+                name: 'top3FlairTemplateId',
+                label: 'Top 3 flair template',
+                options: templateOptions,
+                defaultValue: [settings.top3FlairTemplateId || NO_FLAIR_TEMPLATE],
+              },
+              {
+                type: 'string',
+                name: 'top10FlairText',
+                label: 'Top 10 flair text',
+                defaultValue: settings.top10FlairText,
+              },
+              {
+                type: 'select',
+                name: 'top10FlairTemplateId',
+                label: 'Top 10 flair template',
+                options: templateOptions,
+                defaultValue: [settings.top10FlairTemplateId || NO_FLAIR_TEMPLATE],
+              },
+            ],
+          },
+        },
+      });
+    } catch (error) {
+      console.error(`Error loading flair reward settings: ${error}`);
+      res.json({ showToast: 'Failed to load flair reward settings' });
+    }
+  }
+);
+
+moderationRouter.post<unknown, UiResponse, FlairRewardsForm>(
+  '/internal/form/flair-rewards',
+  async (req, res): Promise<void> => {
+    const form = req.body ?? {};
+    const templateId = (value?: string[]) =>
+      value?.[0] && value[0] !== NO_FLAIR_TEMPLATE ? value[0] : '';
+
+    try {
+      await updateAppSettings({
+        top3FlairText: form.top3FlairText?.trim() ?? '',
+        top3FlairTemplateId: templateId(form.top3FlairTemplateId),
+        top10FlairText: form.top10FlairText?.trim() ?? '',
+        top10FlairTemplateId: templateId(form.top10FlairTemplateId),
+      });
+      await recordAuditLog({ action: 'configure-flair-rewards', moderator: await getModerator() });
+      res.json({ showToast: { text: 'Flair rewards saved', appearance: 'success' } });
+    } catch (error) {
+      console.error(`Error saving flair reward settings: ${error}`);
+      res.json({ showToast: 'Failed to save flair reward settings' });
+    }
+  }
+);
@@ -0,0 +1,31 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { parseGamePostData } from '../../shared/post-data';
+import { ErrorResponse, PostConfigResponse } from '../../shared/types/api';
+import { getGameplaySettings } from '../core/gameplay-settings';
+
+export const postRouter = express.Router();
+
+postRouter.get<unknown, PostConfigResponse | ErrorResponse>(
+  '/api/post-config',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    try {
+      res.json({
+        postId,
+        postData: parseGamePostData(context.postData),
+        gameplay: await getGameplaySettings(),
+      });
+    } catch (error) {
+      console.error(`Error fetching post config for ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch post config' });
+    }
+  }
+);
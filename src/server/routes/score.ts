@@ -0,0 +1,266 @@
+import express from 'express';
+import { context, reddit } from '@devvit/web/server';
+import { parseGamePostData } from '../../shared/post-data';
+import { createSeed } from '../../shared/simulation/random';
+import {
+  Challenge,
+  ErrorResponse,
+  RunSessionResponse,
+  SaveScoreRequest,
+  SaveScoreResponse,
+  ScoreResponse,
+  StartRunRequest,
+} from '../../shared/types/api';
+import { unlockAchievements } from '../core/achievements';
+import {
+  completeChallenge,
+  getChallenge,
+  notifyChallengeResult,
+  recordChallengeRun,
+} from '../core/challenge';
+import { getGameplaySettings } from '../core/gameplay-settings';
+import { saveGhostRun } from '../core/ghost';
+import { getPlayerRank, postLeaderboardKey, recordPostScore } from '../core/leaderboard';
+import { flagScore, isBannedFromLeaderboards } from '../core/moderation';
+import { getPlayerStats, recordRunStats } from '../core/player-stats';
+import { consumeScoreSubmission } from '../core/rate-limit';
+import { consumeRunSession, createRunSession, RunSessionCheck } from '../core/run-session';
+import {
+  getTournamentSeed,
+  isTournamentSubmissionOpen,
+  startTournamentAttempt,
+} from '../core/tournament';
+import { getHighScore, isValidScore, saveScore } from '../core/score';
+import { postScoreCard } from '../core/score-card';
+import { recordSubredditScore } from '../core/subreddit-leaderboard';
+import { parseRunRecord, parseRunSummary, verifyRun } from '../core/verification';
+
+export const scoreRouter = express.Router();
+
+scoreRouter.get<unknown, ScoreResponse | ErrorResponse>(
+  '/api/score',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view scores' });
+      return;
+    }
+
+    try {
+      const highScore = await getHighScore(userId);
+      res.json({ highScore, userId });
+    } catch (error) {
+      console.error(`Error fetching high score for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch high score' });
+    }
+  }
+);
+
+scoreRouter.post<unknown, RunSessionResponse | ErrorResponse, StartRunRequest>(
+  '/api/run/start',
+  async (req, res): Promise<void> => {
+    const { userId, postId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to start a run' });
+      return;
+    }
+
+    const { challengeId } = req.body ?? {};
+    if (challengeId !== undefined && typeof challengeId !== 'string') {
+      res.status(400).json({ status: 'error', message: 'challengeId must be a string' });
+      return;
+    }
+
+    try {
+      const postData = parseGamePostData(context.postData);
+      let seed = postData.seed ?? createSeed();
+      if (postData.tournament && postId) {
+        if (challengeId !== undefined) {
+          res.status(409).json({
+            status: 'error',
+            message: 'Challenges cannot be played on tournament posts',
+          });
+          return;
+        }
+        const attempt = await startTournamentAttempt(postId, userId, postData.tournament);
+        if (!attempt.allowed) {
+          res.status(403).json({ status: 'error', message: attempt.reason });
+          return;
+        }
+        seed = getTournamentSeed(postData, postData.tournament);
+      } else if (challengeId !== undefined) {
+        // Only the challenged player can play a challenge, once, on the post it was sent from
+        const [challenge, username] = await Promise.all([
+          getChallenge(challengeId),
+          reddit.getCurrentUsername(),
+        ]);
+        if (
+          !challenge ||
+          challenge.postId !== postId ||
+          challenge.opponent.toLowerCase() !== username?.toLowerCase()
+        ) {
+          res.status(404).json({ status: 'error', message: 'Challenge not found' });
+          return;
+        }
+        if (challenge.result) {
+          res
+            .status(409)
+            .json({ status: 'error', message: 'This challenge has already been played' });
+          return;
+        }
+        seed = challenge.seed;
+      }
+
+      const gameplay = await getGameplaySettings();
+      const { session, token } = await createRunSession(
+        userId,
+        postId,
+        seed,
+        gameplay,
+        challengeId
+      );
+      res.json({
+        token,
+        seed: session.seed,
+        startedAt: session.startedAt,
+        gameplay: session.gameplay,
+      });
+    } catch (error) {
+      console.error(`Error starting run for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to start run' });
+    }
+  }
+);
+
+scoreRouter.post<unknown, SaveScoreResponse | ErrorResponse, SaveScoreRequest>(
+  '/api/score',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to save scores' });
+      return;
+    }
+
+    try {
+      if (!(await consumeScoreSubmission(userId))) {
+        res
+          .status(429)
+          .json({ status: 'error', message: 'Too many scores submitted, try again in a minute' });
+        return;
+      }
+    } catch (error) {
+      console.error(`Error checking score rate limit for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to save score' });
+      return;
+    }
+
+    const { sessionToken, score, run: rawRun, summary: rawSummary } = req.body ?? {};
+    if (typeof sessionToken !== 'string' || !sessionToken) {
+      res.status(400).json({ status: 'error', message: 'sessionToken is required' });
+      return;
+    }
+
+    if (!isValidScore(score)) {
+      res.status(400).json({ status: 'error', message: 'score must be a non-negative integer' });
+      return;
+    }
+
+    const run = parseRunRecord(rawRun);
+    if (!run) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'run must include a seed, inputs and ticks' });
+      return;
+    }
+
+    const summary = parseRunSummary(rawSummary);
+    if (!summary) {
+      res.status(400).json({ status: 'error', message: 'summary must describe the run' });
+      return;
+    }
+
+    const { postId } = context;
+    const postData = parseGamePostData(context.postData);
+    if (postData.tournament && !isTournamentSubmissionOpen(postData.tournament)) {
+      res.status(403).json({ status: 'error', message: 'The tournament has ended' });
+      return;
+    }
+
+    let sessionCheck: RunSessionCheck;
+    try {
+      sessionCheck = await consumeRunSession(sessionToken, userId, postId);
+    } catch (error) {
+      console.error(`Error checking run session for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to save score' });
+      return;
+    }
+    if (!sessionCheck.valid) {
+      console.warn(`Rejected score ${score} from ${userId}: ${sessionCheck.reason}`);
+      res
+        .status(403)
+        .json({ status: 'error', message: `Invalid run session: ${sessionCheck.reason}` });
+      return;
+    }
+
+    const verification = verifyRun({ score, run, summary }, sessionCheck.session, postData);
+    if (!verification.valid) {
+      console.warn(`Rejected score ${score} from ${userId}: ${verification.reason}`);
+      try {
+        const username = await reddit.getCurrentUsername();
+        await flagScore({ userId, username, postId, score, reason: verification.reason });
+      } catch (error) {
+        console.error(`Error flagging score for ${userId}: ${error}`);
+      }
+      res
+        .status(422)
+        .json({ status: 'error', message: `Score could not be verified: ${verification.reason}` });
+      return;
+    }
+
+    try {
+      const result = await saveScore(userId, score);
+      await recordRunStats(userId, summary);
+      const lifetime = await getPlayerStats(userId);
+      const achievements = await unlockAchievements(userId, summary, lifetime);
+      if (postId) {
+        await saveGhostRun(postId, userId, score, run, sessionCheck.session.gameplay);
+        await recordChallengeRun(postId, userId, { seed: run.seed, score });
+      }
+
+      // Banned users keep their personal high score but stay off every leaderboard
+      const username = await reddit.getCurrentUsername();
+      if (username && !(await isBannedFromLeaderboards(username))) {
+        if (postId) {
+          const previousRank = (await getPlayerRank(postLeaderboardKey(postId), username))?.rank;
+          await recordPostScore(postId, username, score);
+
+          if (result.newHighScore) {
+            // A failed comment must not fail the score that triggered it
+            try {
+              await postScoreCard({ postId, userId, username, score, summary, previousRank });
+            } catch (error) {
+              console.error(`Error posting score card for ${username} on ${postId}: ${error}`);
+            }
+          }
+        }
+        await recordSubredditScore(username, score);
+      }
+
+      // A run started as a challenge settles it, whatever the score
+      const { challengeId } = sessionCheck.session;
+      let challenge: Challenge | undefined;
+      if (challengeId) {
+        const open = await getChallenge(challengeId);
+        if (open && !open.result) {
+          challenge = await completeChallenge(open, score);
+          await notifyChallengeResult(challenge);
+        }
+      }
+
+      res.json({ ...result, achievements, challenge });
+    } catch (error) {
+      console.error(`Error saving score for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to save score' });
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import {
+  ErrorResponse,
+  PlayerSettingsResponse,
+  UpdatePlayerSettingsRequest,
+} from '../../shared/types/api';
+import {
+  getPlayerSettings,
+  parsePlayerSettingsUpdate,
+  updatePlayerSettings,
+} from '../core/player-settings';
+
+export const settingsRouter = express.Router();
+
+settingsRouter.get<unknown, PlayerSettingsResponse | ErrorResponse>(
+  '/api/settings',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view settings' });
+      return;
+    }
+
+    try {
+      const settings = await getPlayerSettings(userId);
+      res.json({ userId, settings });
+    } catch (error) {
+      console.error(`Error fetching settings for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch settings' });
+    }
+  }
+);
+
+settingsRouter.post<unknown, PlayerSettingsResponse | ErrorResponse, UpdatePlayerSettingsRequest>(
+  '/api/settings',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res
+        .status(401)
+        .json({ status: 'error', message: 'You must be logged in to change settings' });
+      return;
+    }
+
+    const update = parsePlayerSettingsUpdate(req.body);
+    if (!update) {
+      res.status(400).json({ status: 'error', message: 'settings contain invalid values' });
+      return;
+    }
+
+    try {
+      const settings = await updatePlayerSettings(userId, update);
+      res.json({ userId, settings });
+    } catch (error) {
+      console.error(`Error updating settings for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to update settings' });
+    }
+  }
+);
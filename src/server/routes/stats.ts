@@ -0,0 +1,25 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { ErrorResponse, PlayerStatsResponse } from '../../shared/types/api';
+import { getPlayerStats } from '../core/player-stats';
+
+export const statsRouter = express.Router();
+
+statsRouter.get<unknown, PlayerStatsResponse | ErrorResponse>(
+  '/api/stats',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({ status: 'error', message: 'You must be logged in to view stats' });
+      return;
+    }
+
+    try {
+      const stats = await getPlayerStats(userId);
+      res.json({ userId, stats });
+    } catch (error) {
+      console.error(`Error fetching stats for ${userId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch stats' });
+    }
+  }
+);
@@ -0,0 +1,63 @@
+import express from 'express';
+import { context } from '@devvit/web/server';
+import { parseGamePostData } from '../../shared/post-data';
+import { ErrorResponse, TournamentResponse } from '../../shared/types/api';
+import {
+  DEFAULT_LEADERBOARD_LIMIT,
+  getLeaderboardSize,
+  getTopEntries,
+  postLeaderboardKey,
+} from '../core/leaderboard';
+import {
+  getAttemptsUsed,
+  getTournamentResults,
+  getTournamentRound,
+  getTournamentStatus,
+} from '../core/tournament';
+
+export const tournamentRouter = express.Router();
+
+tournamentRouter.get<unknown, TournamentResponse | ErrorResponse>(
+  '/api/tournament',
+  async (_req, res): Promise<void> => {
+    const { postId, userId } = context;
+    if (!postId) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'postId is required but missing from context' });
+      return;
+    }
+
+    const { tournament } = parseGamePostData(context.postData);
+    if (!tournament) {
+      res.status(404).json({ status: 'error', message: 'This post is not a tournament' });
+      return;
+    }
+
+    try {
+      const key = postLeaderboardKey(postId);
+      const status = getTournamentStatus(tournament);
+      const round = status === 'open' ? getTournamentRound(tournament) : undefined;
+      const [entries, totalPlayers, attemptsUsed, results] = await Promise.all([
+        getTopEntries(key, DEFAULT_LEADERBOARD_LIMIT),
+        getLeaderboardSize(key),
+        userId ? getAttemptsUsed(postId, userId) : undefined,
+        getTournamentResults(postId),
+      ]);
+
+      res.json({
+        postId,
+        tournament,
+        status,
+        round: round === undefined ? undefined : round + 1,
+        attemptsUsed,
+        entries,
+        totalPlayers,
+        results,
+      });
+    } catch (error) {
+      console.error(`Error fetching tournament ${postId}: ${error}`);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch tournament' });
+    }
+  }
+);
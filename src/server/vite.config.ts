@@ -1,17 +1,42 @@
+import { fileURLToPath } from 'url';
 import { defineConfig } from 'vite';
 
-export default defineConfig({
-  build: {
-    outDir: '../../dist/server',
-    emptyOutDir: true,
-    lib: {
-      entry: './index.ts',
-      formats: ['cjs'],
-      fileName: 'index'
-    },
-    rollupOptions: {
-      external: ['@devvit/web']
-    },
-    ssr: true
-  }
-});
\ No newline at end of file
+export default defineConfig(({ mode }) =>
+  mode === 'offline'
+    ? {
+        // Offline build for the root server.js, with Devvit swapped for in-memory stand-ins
+        resolve: {
+          alias: [
+            {
+              find: /^@devvit\/web\/server$/,
+              replacement: fileURLToPath(new URL('./local/devvit-server.ts', import.meta.url))
+            }
+          ]
+        },
+        build: {
+          outDir: '../../dist/offline',
+          emptyOutDir: true,
+          lib: {
+            entry: './local/index.ts',
+            formats: ['es'],
+            fileName: 'index'
+          },
+          ssr: true
+        }
+      }
+    : {
+        build: {
+          outDir: '../../dist/server',
+          emptyOutDir: true,
+          lib: {
+            entry: './index.ts',
+            formats: ['cjs'],
+            fileName: 'index'
+          },
+          rollupOptions: {
+            external: ['@devvit/web']
+          },
+          ssr: true
+        }
+      }
+);
@@ -0,0 +1,126 @@
+import { COLLECTIBLE_TYPES, CollectibleType } from './simulation/rules';
+import { RunSummary } from './simulation/run-simulation';
+import { Achievement, AchievementGoal } from './types/achievement';
+import { PlayerStats } from './types/api';
+
+/**
+ * Every achievement in the game. Both the client (for instant feedback) and the
+ * server (the source of truth) evaluate runs against this list, so adding an
+ * achievement only takes a new entry here.
+ */
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: 'first-run',
+    title: 'First Steps',
+    description: 'Finish your first run',
+    icon: '👣',
+    goal: { scope: 'lifetime', stat: 'runsPlayed', target: 1 },
+  },
+  {
+    id: 'survive-1-minute',
+    title: 'Warming Up',
+    description: 'Survive 1 minute',
+    icon: '⏱️',
+    goal: { scope: 'run', stat: 'timeSurvivedMs', target: 60_000 },
+  },
+  {
+    id: 'survive-2-minutes',
+    title: 'Night Owl',
+    description: 'Survive 2 minutes',
+    icon: '🦉',
+    goal: { scope: 'run', stat: 'timeSurvivedMs', target: 120_000 },
+  },
+  {
+    id: 'speed-20',
+    title: 'Rocket Runner',
+    description: 'Reach speed 20',
+    icon: '🚀',
+    goal: { scope: 'run', stat: 'topSpeed', target: 20 },
+  },
+  {
+    id: 'run-1000',
+    title: 'Long Road Home',
+    description: 'Run 1,000 m in one run',
+    icon: '🛣️',
+    goal: { scope: 'run', stat: 'distance', target: 1000 },
+  },
+  {
+    id: 'diyas-10-run',
+    title: 'Lamp Lighter',
+    description: 'Collect 10 diyas in one run',
+    icon: '🪔',
+    goal: { scope: 'run', stat: 'diya', target: 10 },
+  },
+  {
+    id: 'rangolis-100',
+    title: 'Rangoli Artist',
+    description: 'Collect 100 rangolis',
+    icon: '🌸',
+    goal: { scope: 'lifetime', stat: 'rangoli', target: 100 },
+  },
+  {
+    id: 'coins-500',
+    title: 'Festival Fortune',
+    description: 'Collect 500 coins',
+    icon: '🪙',
+    goal: { scope: 'lifetime', stat: 'coin', target: 500 },
+  },
+  {
+    id: 'sparklers-250',
+    title: 'Sparkle Chaser',
+    description: 'Collect 250 sparklers',
+    icon: '✨',
+    goal: { scope: 'lifetime', stat: 'phooljhadi', target: 250 },
+  },
+  {
+    id: 'runs-50',
+    title: 'Regular',
+    description: 'Finish 50 runs',
+    icon: '🎆',
+    goal: { scope: 'lifetime', stat: 'runsPlayed', target: 50 },
+  },
+  {
+    id: 'total-distance-42195',
+    title: 'Marathon of Lights',
+    description: 'Run 42,195 m in total',
+    icon: '🏅',
+    goal: { scope: 'lifetime', stat: 'totalDistance', target: 42_195 },
+  },
+];
+
+export const getAchievement = (id: string): Achievement | undefined =>
+  ACHIEVEMENTS.find((achievement) => achievement.id === id);
+
+const isCollectibleType = (stat: string): stat is CollectibleType =>
+  (COLLECTIBLE_TYPES as readonly string[]).includes(stat);
+
+/** Lifetime stats after `run` has been added to them, matching what the server records. */
+export const addRunToStats = (stats: PlayerStats, run: RunSummary): PlayerStats => ({
+  runsPlayed: stats.runsPlayed + 1,
+  totalDistance: stats.totalDistance + run.distance,
+  totalTimeSurvivedMs: stats.totalTimeSurvivedMs + run.timeSurvivedMs,
+  obstaclesHit: stats.obstaclesHit + run.obstaclesHit,
+  collectibles: Object.fromEntries(
+    COLLECTIBLE_TYPES.map((type) => [type, stats.collectibles[type] + run.collectibles[type]])
+  ) as PlayerStats['collectibles'],
+});
+
+/**
+ * Current value of the stat `goal` measures. `run` is the run being evaluated and
+ * `lifetime` the player's totals with that run already included.
+ */
+export const goalProgress = (
+  goal: AchievementGoal,
+  run: RunSummary | undefined,
+  lifetime: PlayerStats
+): number => {
+  if (goal.scope === 'lifetime') {
+    return isCollectibleType(goal.stat) ? lifetime.collectibles[goal.stat] : lifetime[goal.stat];
+  }
+  if (!run) return 0;
+  return isCollectibleType(goal.stat) ? run.collectibles[goal.stat] : run[goal.stat];
+};
+
+/** Every achievement whose goal is met by `run` or by `lifetime` (which includes `run`). */
+export const reachedAchievements = (run: RunSummary, lifetime: PlayerStats): Achievement[] =>
+  ACHIEVEMENTS.filter(({ goal }) => goalProgress(goal, run, lifetime) >= goal.target);
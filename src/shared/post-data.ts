@@ -0,0 +1,209 @@
+import { isValidSeed } from './simulation/random';
+import {
+  COLLECTIBLE_TYPES,
+  COLLECTIBLE_VALUES,
+  CollectibleType,
+  DEFAULT_RUN_RULES,
+  RunRules,
+} from './simulation/rules';
+import { GameplaySettings } from './types/api';
+import { GameMode, GamePostData, GameTheme, TournamentConfig } from './types/post';
+
+export const GAME_MODES: readonly GameMode[] = ['endless', 'daily', 'tournament'];
+
+export const GAME_THEMES: readonly GameTheme[] = ['diwali-night'];
+
+/** Bounds for tunable post settings, so a post can't be made unplayable. */
+export const POST_CONFIG_LIMITS = {
+  startingSpeed: { min: 5, max: 30 },
+  lives: { min: 1, max: 10 },
+  spawnInterval: { min: 0.5, max: 5 },
+} as const;
+
+/** Bounds for tournament settings chosen by moderators. */
+export const TOURNAMENT_LIMITS = {
+  attemptsPerUser: { min: 1, max: 100 },
+  roundHours: { min: 1, max: 24 * 7 },
+} as const;
+
+/** Bounds for the install-wide gameplay settings moderators set in the app settings. */
+export const GAMEPLAY_SETTINGS_LIMITS = {
+  baseSpeed: POST_CONFIG_LIMITS.startingSpeed,
+  speedRamp: { min: 0, max: 1 },
+  minSpawnInterval: POST_CONFIG_LIMITS.spawnInterval,
+  lives: POST_CONFIG_LIMITS.lives,
+  collectibleValue: { min: 0, max: 100 },
+} as const;
+
+export const DEFAULT_POST_DATA: GamePostData = {
+  mode: 'endless',
+  theme: 'diwali-night',
+};
+
+export const DEFAULT_GAMEPLAY_SETTINGS: GameplaySettings = {
+  baseSpeed: DEFAULT_RUN_RULES.startingSpeed,
+  speedRamp: DEFAULT_RUN_RULES.speedIncrement,
+  minSpawnInterval: DEFAULT_RUN_RULES.minSpawnInterval,
+  lives: DEFAULT_RUN_RULES.startingLives,
+  collectibleValues: { ...COLLECTIBLE_VALUES },
+  enabledCollectibles: [...COLLECTIBLE_TYPES],
+};
+
+/** Name of the app setting holding a collectible type's point value. */
+export const collectibleValueSetting = (type: CollectibleType): string => `${type}Value`;
+
+const isGameMode = (value: unknown): value is GameMode =>
+  typeof value === 'string' && (GAME_MODES as readonly string[]).includes(value);
+
+const isGameTheme = (value: unknown): value is GameTheme =>
+  typeof value === 'string' && (GAME_THEMES as readonly string[]).includes(value);
+
+/** Returns `value` clamped to the given bounds, or `fallback` when it isn't a finite number. */
+const parseBounded = (
+  value: unknown,
+  fallback: number,
+  { min, max }: { min: number; max: number }
+): number => {
+  const parsed = Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isFinite(parsed)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, parsed));
+};
+
+/** Like `parseBounded`, but undefined when there is no number to clamp. */
+const parseOptionalBounded = (
+  value: unknown,
+  limits: { min: number; max: number }
+): number | undefined => {
+  const parsed = parseBounded(value, NaN, limits);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const parseCollectibleTypes = (value: unknown): CollectibleType[] | undefined =>
+  Array.isArray(value) ? COLLECTIBLE_TYPES.filter((type) => value.includes(type)) : undefined;
+
+const isTime = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+
+const parseTournamentConfig = (value: unknown): TournamentConfig | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { id, startsAt, endsAt, attemptsPerUser, roundMs } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !isTime(startsAt) || !isTime(endsAt) || endsAt <= startsAt) {
+    return undefined;
+  }
+
+  const { min, max } = TOURNAMENT_LIMITS.attemptsPerUser;
+  const tournament: TournamentConfig = {
+    id,
+    startsAt,
+    endsAt,
+    attemptsPerUser: Math.round(parseBounded(attemptsPerUser, min, { min, max })),
+  };
+  if (isTime(roundMs) && roundMs > 0) tournament.roundMs = roundMs;
+  return tournament;
+};
+
+/**
+ * Narrows post data to a game config. Posts created before post data was typed,
+ * or with missing fields, fall back to the defaults. Tuning is only kept when the
+ * post has its own; otherwise the install's gameplay settings apply.
+ */
+export const parseGamePostData = (value: unknown): GamePostData => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_POST_DATA;
+  const {
+    mode,
+    theme,
+    startingSpeed,
+    lives,
+    spawnInterval,
+    allowedPickups,
+    seed,
+    challengeDate,
+    tournament,
+  } = value as Record<string, unknown>;
+
+  const postData: GamePostData = {
+    mode: isGameMode(mode) ? mode : DEFAULT_POST_DATA.mode,
+    theme: isGameTheme(theme) ? theme : DEFAULT_POST_DATA.theme,
+  };
+  const speed = parseOptionalBounded(startingSpeed, POST_CONFIG_LIMITS.startingSpeed);
+  const lifeCount = parseOptionalBounded(lives, POST_CONFIG_LIMITS.lives);
+  const interval = parseOptionalBounded(spawnInterval, POST_CONFIG_LIMITS.spawnInterval);
+  const pickups = parseCollectibleTypes(allowedPickups);
+  if (speed !== undefined) postData.startingSpeed = speed;
+  if (lifeCount !== undefined) postData.lives = Math.round(lifeCount);
+  if (interval !== undefined) postData.spawnInterval = interval;
+  if (pickups) postData.allowedPickups = pickups;
+
+  if (isValidSeed(seed)) postData.seed = seed;
+  if (typeof challengeDate === 'string') postData.challengeDate = challengeDate;
+  if (postData.mode === 'tournament') {
+    const config = parseTournamentConfig(tournament);
+    // A tournament post without a readable schedule plays as a regular post
+    if (config) postData.tournament = config;
+    else postData.mode = DEFAULT_POST_DATA.mode;
+  }
+  return postData;
+};
+
+/**
+ * Narrows raw app setting values to gameplay settings. Unset or invalid values
+ * fall back to the defaults and out-of-range ones are clamped, like tuned posts.
+ */
+export const parseGameplaySettings = (values: Record<string, unknown>): GameplaySettings => {
+  const { baseSpeed, speedRamp, minSpawnInterval, lives, enabledCollectibles } = values;
+  const defaults = DEFAULT_GAMEPLAY_SETTINGS;
+  const limits = GAMEPLAY_SETTINGS_LIMITS;
+
+  return {
+    baseSpeed: parseBounded(baseSpeed, defaults.baseSpeed, limits.baseSpeed),
+    speedRamp: parseBounded(speedRamp, defaults.speedRamp, limits.speedRamp),
+    minSpawnInterval: parseBounded(
+      minSpawnInterval,
+      defaults.minSpawnInterval,
+      limits.minSpawnInterval
+    ),
+    lives: Math.round(parseBounded(lives, defaults.lives, limits.lives)),
+    collectibleValues: Object.fromEntries(
+      COLLECTIBLE_TYPES.map((type) => [
+        type,
+        Math.round(
+          parseBounded(
+            values[collectibleValueSetting(type)],
+            defaults.collectibleValues[type],
+            limits.collectibleValue
+          )
+        ),
+      ])
+    ) as GameplaySettings['collectibleValues'],
+    enabledCollectibles: parseCollectibleTypes(enabledCollectibles) ?? [
+      ...defaults.enabledCollectibles,
+    ],
+  };
+};
+
+/**
+ * Gameplay rules for runs on a post: the install's gameplay settings, with the
+ * post's own tuning on top. The client and server must both use this.
+ */
+export const runRulesForPost = (
+  postData: GamePostData,
+  gameplay: GameplaySettings = DEFAULT_GAMEPLAY_SETTINGS
+): RunRules => {
+  const spawnInterval = postData.spawnInterval ?? DEFAULT_RUN_RULES.spawnInterval;
+  const { allowedPickups } = postData;
+
+  return {
+    ...DEFAULT_RUN_RULES,
+    startingSpeed: postData.startingSpeed ?? gameplay.baseSpeed,
+    startingLives: postData.lives ?? gameplay.lives,
+    spawnInterval,
+    minSpawnInterval: Math.min(gameplay.minSpawnInterval, spawnInterval),
+    speedIncrement: gameplay.speedRamp,
+    allowedCollectibles: gameplay.enabledCollectibles.filter(
+      (type) => !allowedPickups || allowedPickups.includes(type)
+    ),
+    collectibleValues: gameplay.collectibleValues,
+  };
+};
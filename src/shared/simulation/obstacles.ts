@@ -0,0 +1,105 @@
+// Obstacle types and how each one behaves. The ones from the `Obstacles_Core`
+// asset pack take their sizes and behaviour from its metadata, which lives here
+// rather than in the client's pack registry so server replays read exactly the
+// same numbers.
+
+/** An axis-aligned collision box, as half extents around an entity's position. */
+export interface Hitbox {
+  halfWidth: number;
+  halfHeight: number;
+  halfDepth: number;
+}
+
+export type ObstacleType = 'barrier' | 'cone' | 'truck' | 'pit' | 'toran';
+
+export const OBSTACLE_TYPES: readonly ObstacleType[] = ['barrier', 'cone', 'truck', 'pit', 'toran'];
+
+/** Obstacle types that come from the `Obstacles_Core` pack. */
+export type CoreObstacleType = Exclude<ObstacleType, 'toran'>;
+
+export interface ObstacleAsset {
+  /** Asset id of the obstacle in the `Obstacles_Core` pack. */
+  id: string;
+  metadata: Record<string, number | boolean>;
+}
+
+export const OBSTACLE_ASSETS: Readonly<Record<CoreObstacleType, ObstacleAsset>> = {
+  barrier: { id: 'obstacle-barrier', metadata: { height: 1.5, destructible: false } },
+  cone: { id: 'obstacle-cone', metadata: { height: 0.8, destructible: true } },
+  truck: { id: 'obstacle-truck', metadata: { width: 2.5, moving: true, speed: 2 } },
+  pit: { id: 'obstacle-pit', metadata: { depth: 2, width: 3 } },
+};
+
+export interface ObstacleRule {
+  /** Height of the obstacle's centre above the ground. */
+  y: number;
+  hitbox: Hitbox;
+  /** Chance of this type relative to the other types' weights. */
+  weight: number;
+  /** Points a destructible obstacle costs when it breaks, instead of a life. */
+  breakPenalty?: number;
+  /** Speed the obstacle drifts across lanes at, bouncing off the outer lanes. */
+  driftSpeed?: number;
+  /** Whether it spawns between two neighbouring lanes, blocking both. */
+  spansLanes?: boolean;
+}
+
+/** Points a destructible obstacle costs when the player breaks it. */
+const BREAK_PENALTY = 20;
+
+const readNumber = (metadata: Record<string, unknown>, key: string, fallback: number): number => {
+  const value = metadata[key];
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/** Reads a core obstacle's size and behaviour from its pack metadata. */
+export const obstacleRuleFromMetadata = (
+  type: CoreObstacleType,
+  metadata: Record<string, unknown>,
+  weight: number
+): ObstacleRule => {
+  switch (type) {
+    case 'barrier':
+    case 'cone': {
+      // Blocks standing on the ground, jumped over or dodged
+      const halfHeight = readNumber(metadata, 'height', 1.5) / 2;
+      const halfWidth = type === 'cone' ? 0.3 : 0.4;
+      return {
+        y: halfHeight,
+        hitbox: { halfWidth, halfHeight, halfDepth: halfWidth },
+        weight,
+        ...(metadata.destructible === true && { breakPenalty: BREAK_PENALTY }),
+      };
+    }
+    case 'truck':
+      // Too tall to jump, so the only way past is around it
+      return {
+        y: 1.5,
+        hitbox: {
+          halfWidth: readNumber(metadata, 'width', 2.5) / 2,
+          halfHeight: 1.5,
+          halfDepth: 1.5,
+        },
+        weight,
+        ...(metadata.moving === true && { driftSpeed: readNumber(metadata, 'speed', 0) }),
+      };
+    case 'pit':
+      // A hole in the track: sliding doesn't help, only a jump clears it. Its
+      // `depth` is how far down it goes, so only its width matters to the hitbox.
+      return {
+        y: 0.1,
+        hitbox: { halfWidth: readNumber(metadata, 'width', 3) / 2, halfHeight: 0.5, halfDepth: 1 },
+        weight,
+        spansLanes: true,
+      };
+  }
+};
+
+export const DEFAULT_OBSTACLE_RULES: Readonly<Record<ObstacleType, ObstacleRule>> = {
+  barrier: obstacleRuleFromMetadata('barrier', OBSTACLE_ASSETS.barrier.metadata, 3),
+  cone: obstacleRuleFromMetadata('cone', OBSTACLE_ASSETS.cone.metadata, 2),
+  truck: obstacleRuleFromMetadata('truck', OBSTACLE_ASSETS.truck.metadata, 1),
+  pit: obstacleRuleFromMetadata('pit', OBSTACLE_ASSETS.pit.metadata, 1),
+  // A garland hanging across the lane, only passed by sliding under it
+  toran: { y: 1.75, hitbox: { halfWidth: 0.9, halfHeight: 0.4, halfDepth: 0.2 }, weight: 2 },
+};
@@ -0,0 +1,95 @@
+// The Diwali pickups do more than score: a share-diya heals, a phooljhadi gives a
+// speed burst and a rangoli clears the way. Their effects and timings come from
+// the pickup metadata of the `Diwali_Night` asset pack, kept here next to the
+// simulation that applies them, like the power-ups.
+
+export type PickupEffect = 'heal' | 'speed-trail' | 'aoe-protection';
+
+/** Effects that last a while, rather than applying once on pickup. */
+export type TimedPickupEffect = Exclude<PickupEffect, 'heal'>;
+
+export const TIMED_PICKUP_EFFECTS: readonly TimedPickupEffect[] = ['speed-trail', 'aoe-protection'];
+
+/** Collectible types that have a Diwali pickup, and so an effect. */
+export type DiwaliPickupType = 'diya' | 'phooljhadi' | 'rangoli';
+
+export const DIWALI_PICKUP_TYPES: readonly DiwaliPickupType[] = ['diya', 'phooljhadi', 'rangoli'];
+
+export interface DiwaliPickupAsset {
+  /** Asset id of the pickup in the `Diwali_Night` pack. */
+  id: string;
+  /** File name of its model, without the extension. */
+  model: string;
+  metadata: Record<string, string | number | boolean>;
+}
+
+export const DIWALI_PICKUPS: Readonly<Record<DiwaliPickupType, DiwaliPickupAsset>> = {
+  diya: {
+    id: 'pickup-share-diya',
+    model: 'share-diya',
+    metadata: { effect: 'heal', value: 25, glow: true },
+  },
+  phooljhadi: {
+    id: 'pickup-phooljhadi-boost',
+    model: 'phooljhadi',
+    metadata: { effect: 'speed-trail', duration: 8, sparkles: true },
+  },
+  rangoli: {
+    id: 'pickup-rangoli-shield',
+    model: 'rangoli',
+    metadata: { effect: 'aoe-protection', duration: 10, radius: 5 },
+  },
+};
+
+export interface PickupEffectRule {
+  effect: PickupEffect;
+  /** How long a timed effect lasts; 0 for a heal. */
+  durationSeconds: number;
+  /** Distance from the player an area effect reaches; 0 for the others. */
+  radius: number;
+}
+
+const PICKUP_EFFECTS: readonly PickupEffect[] = ['heal', 'speed-trail', 'aoe-protection'];
+
+export const isPickupEffect = (value: unknown): value is PickupEffect =>
+  typeof value === 'string' && (PICKUP_EFFECTS as readonly string[]).includes(value);
+
+export const isTimedPickupEffect = (effect: PickupEffect): effect is TimedPickupEffect =>
+  effect !== 'heal';
+
+const readNumber = (metadata: Record<string, unknown>, key: string): number => {
+  const value = metadata[key];
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0;
+};
+
+/**
+ * Reads a pickup's effect from its metadata, or undefined when it has none. The
+ * heal's `value` is what the pickup scores, which the collectible values cover.
+ */
+export const pickupEffectRuleFromMetadata = (
+  metadata: Record<string, unknown>
+): PickupEffectRule | undefined => {
+  const { effect } = metadata;
+  if (!isPickupEffect(effect)) return undefined;
+
+  return {
+    effect,
+    durationSeconds: isTimedPickupEffect(effect) ? readNumber(metadata, 'duration') : 0,
+    radius: effect === 'aoe-protection' ? readNumber(metadata, 'radius') : 0,
+  };
+};
+
+export const DEFAULT_PICKUP_EFFECT_RULES = Object.fromEntries(
+  DIWALI_PICKUP_TYPES.map((type) => [
+    type,
+    pickupEffectRuleFromMetadata(DIWALI_PICKUPS[type].metadata),
+  ])
+) as Record<DiwaliPickupType, PickupEffectRule>;
+
+/** A timed pickup effect in progress, as shown on the HUD. */
+export interface ActivePickupEffect {
+  effect: TimedPickupEffect;
+  remainingSeconds: number;
+  durationSeconds: number;
+  radius: number;
+}
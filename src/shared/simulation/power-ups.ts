@@ -0,0 +1,65 @@
+// Power-ups are timed effects picked up during a run. Their durations and
+// strengths come from the pickup metadata of the `Pickups_Core` asset pack, which
+// lives here rather than in the client's pack registry so server replays read
+// exactly the same numbers.
+
+export type PowerUpType = 'magnet' | 'multiplier' | 'shield';
+
+export const POWER_UP_TYPES: readonly PowerUpType[] = ['magnet', 'multiplier', 'shield'];
+
+export interface PowerUpPickup {
+  /** Asset id of the pickup in the `Pickups_Core` pack. */
+  id: string;
+  metadata: Record<string, number | boolean>;
+}
+
+export const POWER_UP_PICKUPS: Readonly<Record<PowerUpType, PowerUpPickup>> = {
+  magnet: { id: 'pickup-magnet', metadata: { duration: 5, range: 3 } },
+  multiplier: { id: 'pickup-multiplier', metadata: { multiplier: 2, duration: 10 } },
+  shield: { id: 'pickup-shield', metadata: { duration: 8, invulnerable: true } },
+};
+
+export interface PowerUpRule {
+  durationSeconds: number;
+  /**
+   * What the effect does while active: the magnet's pull range in world units,
+   * the factor pickup points are multiplied by, or 1 for a shield that blocks hits.
+   */
+  strength: number;
+}
+
+const readNumber = (metadata: Record<string, unknown>, key: string, fallback: number): number => {
+  const value = metadata[key];
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/** Reads a power-up's duration and strength from its pickup metadata. */
+export const powerUpRuleFromMetadata = (
+  type: PowerUpType,
+  metadata: Record<string, unknown>
+): PowerUpRule => {
+  const durationSeconds = readNumber(metadata, 'duration', 0);
+  switch (type) {
+    case 'magnet':
+      return { durationSeconds, strength: readNumber(metadata, 'range', 0) };
+    case 'multiplier':
+      return { durationSeconds, strength: readNumber(metadata, 'multiplier', 1) };
+    case 'shield':
+      return { durationSeconds, strength: metadata.invulnerable === true ? 1 : 0 };
+  }
+};
+
+export const DEFAULT_POWER_UP_RULES = Object.fromEntries(
+  POWER_UP_TYPES.map((type) => [
+    type,
+    powerUpRuleFromMetadata(type, POWER_UP_PICKUPS[type].metadata),
+  ])
+) as Record<PowerUpType, PowerUpRule>;
+
+/** A power-up in effect, as shown on the HUD. */
+export interface ActivePowerUp {
+  type: PowerUpType;
+  remainingSeconds: number;
+  durationSeconds: number;
+  strength: number;
+}
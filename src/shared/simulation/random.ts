@@ -0,0 +1,57 @@
+/**
+ * Small deterministic PRNG (mulberry32). The same seed produces the same
+ * sequence in the browser and on the server, which is what lets a run be
+ * re-simulated from its seed and input log.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Returns a float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns an integer in [0, maxExclusive). */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)]!;
+  }
+
+  /** Picks one of `items`, each as likely as its share of the total weight. */
+  pickWeighted<T>(items: readonly T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + Math.max(0, weight(item)), 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= Math.max(0, weight(item));
+      if (roll < 0) return item;
+    }
+    // Only reached when every weight is zero
+    return items[items.length - 1]!;
+  }
+}
+
+export const isValidSeed = (seed: unknown): seed is number =>
+  typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff;
+
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/** Derives a stable seed from a string (FNV-1a), e.g. for a date-based daily challenge. */
+export const seedFromString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
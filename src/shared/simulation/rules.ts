@@ -0,0 +1,115 @@
+// Gameplay rules shared by the client renderer and server-side run verification.
+// Anything that affects spawning, movement, collisions or scoring belongs here so
+// both sides simulate the exact same run.
+
+import { DEFAULT_OBSTACLE_RULES, Hitbox, ObstacleRule, ObstacleType } from './obstacles';
+import { DEFAULT_PICKUP_EFFECT_RULES, PickupEffectRule } from './pickup-effects';
+import { DEFAULT_POWER_UP_RULES, PowerUpRule, PowerUpType } from './power-ups';
+import { Segment, SEGMENTS } from './segments';
+
+/** Fixed simulation step in seconds. Runs are always advanced in whole ticks. */
+export const SIMULATION_STEP = 1 / 60;
+
+/** X position of each lane, left to right. */
+export const LANE_POSITIONS: readonly number[] = [-2, 0, 2];
+export const CENTER_LANE = 1;
+
+export type CollectibleType = 'coin' | 'diya' | 'phooljhadi' | 'rangoli';
+
+export const COLLECTIBLE_TYPES: readonly CollectibleType[] = [
+  'coin',
+  'diya',
+  'phooljhadi',
+  'rangoli',
+];
+
+export const COLLECTIBLE_VALUES: Record<CollectibleType, number> = {
+  coin: 10,
+  diya: 25,
+  phooljhadi: 15,
+  rangoli: 30,
+};
+
+export interface RunRules {
+  startingSpeed: number;
+  startingLives: number;
+  /** Segments the track is stitched together from. */
+  segments: readonly Segment[];
+  /** Seconds of open track between segments at the start of a run. */
+  spawnInterval: number;
+  minSpawnInterval: number;
+  /** Seconds removed from the gap between segments after every segment. */
+  spawnIntervalDecay: number;
+  /** Speed added after every row of obstacles. */
+  speedIncrement: number;
+  /** Chance that a random wave has a single obstacle rather than two. */
+  singleObstacleChance: number;
+  /** Size, behaviour and spawn weight of each obstacle type. */
+  obstacles: Readonly<Record<ObstacleType, ObstacleRule>>;
+  /** Chance that each free lane in a random wave gets a collectible. */
+  collectibleChance: number;
+  /** Collectible types that can spawn. Nothing spawns when empty. */
+  allowedCollectibles: readonly CollectibleType[];
+  /** Points each collectible type is worth. */
+  collectibleValues: Readonly<Record<CollectibleType, number>>;
+  /** Seconds between power-up spawns. */
+  powerUpInterval: number;
+  powerUps: Readonly<Record<PowerUpType, PowerUpRule>>;
+  /** Effect of collecting each Diwali pickup. Collectibles without one only score. */
+  pickupEffects: Readonly<Partial<Record<CollectibleType, PickupEffectRule>>>;
+  /** How much faster the world scrolls during a phooljhadi speed burst. */
+  speedTrailMultiplier: number;
+  survivalPointsPerSecond: number;
+}
+
+export const DEFAULT_RUN_RULES: RunRules = {
+  startingSpeed: 10,
+  startingLives: 3,
+  segments: SEGMENTS,
+  spawnInterval: 2,
+  minSpawnInterval: 1.2,
+  spawnIntervalDecay: 0.02,
+  speedIncrement: 0.1,
+  singleObstacleChance: 0.6,
+  obstacles: DEFAULT_OBSTACLE_RULES,
+  collectibleChance: 0.7,
+  allowedCollectibles: COLLECTIBLE_TYPES,
+  collectibleValues: COLLECTIBLE_VALUES,
+  powerUpInterval: 15,
+  powerUps: DEFAULT_POWER_UP_RULES,
+  pickupEffects: DEFAULT_PICKUP_EFFECT_RULES,
+  speedTrailMultiplier: 1.5,
+  survivalPointsPerSecond: 5,
+};
+
+export const PLAYER_PHYSICS = {
+  jumpForce: 15,
+  gravity: -50,
+  groundY: 1,
+  laneChangeSpeed: 8,
+  laneSnapDistance: 0.1,
+  /** Seconds a slide lasts. */
+  slideDuration: 0.6,
+} as const;
+
+/**
+ * The player's collision box, a little smaller than the runner so near misses
+ * stay misses. Sliding halves its height, keeping its bottom where it was.
+ */
+export const PLAYER_HITBOX: Readonly<Record<'standing' | 'sliding', Hitbox>> = {
+  standing: { halfWidth: 0.3, halfHeight: 0.6, halfDepth: 0.3 },
+  sliding: { halfWidth: 0.3, halfHeight: 0.3, halfDepth: 0.3 },
+};
+
+export const WORLD = {
+  spawnZ: -50,
+  despawnZ: 10,
+  collectibleY: 1,
+  /** Power-ups don't spawn in a lane with an obstacle closer than this to the spawn point. */
+  powerUpClearance: 4,
+} as const;
+
+export const HIT_RADIUS = {
+  collectible: 0.8,
+  powerUp: 0.8,
+} as const;
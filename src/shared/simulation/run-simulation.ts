@@ -0,0 +1,807 @@
+import { OBSTACLE_TYPES, ObstacleType } from './obstacles';
+import {
+  ActivePickupEffect,
+  isTimedPickupEffect,
+  PickupEffect,
+  PickupEffectRule,
+  TIMED_PICKUP_EFFECTS,
+  TimedPickupEffect,
+} from './pickup-effects';
+import { ActivePowerUp, POWER_UP_TYPES, PowerUpType } from './power-ups';
+import { SeededRandom } from './random';
+import {
+  CENTER_LANE,
+  CollectibleType,
+  DEFAULT_RUN_RULES,
+  HIT_RADIUS,
+  LANE_POSITIONS,
+  PLAYER_HITBOX,
+  PLAYER_PHYSICS,
+  RunRules,
+  SIMULATION_STEP,
+  WORLD,
+} from './rules';
+import {
+  CollectiblePlacement,
+  difficultyTierAt,
+  RANDOM_WAVE_SEGMENT,
+  Segment,
+  SegmentRow,
+  segmentRows,
+} from './segments';
+
+export type RunAction = 'jump' | 'left' | 'right' | 'slide';
+
+export const RUN_ACTIONS: readonly RunAction[] = ['jump', 'left', 'right', 'slide'];
+
+/** A player input, stamped with the tick it was applied before. */
+export interface RunInput {
+  tick: number;
+  action: RunAction;
+}
+
+/** Everything needed to replay a run: its seed, inputs and length in ticks. */
+export interface RunRecord {
+  seed: number;
+  inputs: RunInput[];
+  ticks: number;
+}
+
+/** What a finished run achieved, merged into the player's lifetime stats. */
+export interface RunSummary {
+  /** World units travelled, rounded down. */
+  distance: number;
+  timeSurvivedMs: number;
+  /** Highest speed reached, rounded down. Speed only ever increases during a run. */
+  topSpeed: number;
+  obstaclesHit: number;
+  collectibles: Record<CollectibleType, number>;
+}
+
+export interface SimPlayer {
+  x: number;
+  y: number;
+  velocityY: number;
+  lane: number;
+  isGrounded: boolean;
+  /** Ticks left of the current slide; 0 when not sliding. */
+  slideTicks: number;
+}
+
+export interface SimObstacle {
+  id: number;
+  lane: number;
+  type: ObstacleType;
+  x: number;
+  y: number;
+  z: number;
+  speed: number;
+  /** Sideways speed of an obstacle drifting across lanes; 0 for the rest. */
+  velocityX: number;
+}
+
+export interface SimPowerUp {
+  id: number;
+  lane: number;
+  type: PowerUpType;
+  x: number;
+  y: number;
+  z: number;
+  speed: number;
+}
+
+export interface SimCollectible {
+  id: number;
+  lane: number;
+  type: CollectibleType;
+  x: number;
+  y: number;
+  z: number;
+  speed: number;
+}
+
+export type RunEvent =
+  | { type: 'obstacle-spawned'; obstacle: SimObstacle }
+  | { type: 'collectible-spawned'; collectible: SimCollectible }
+  | { type: 'obstacle-hit'; obstacle: SimObstacle }
+  | { type: 'collectible-collected'; collectible: SimCollectible; value: number }
+  | { type: 'power-up-spawned'; powerUp: SimPowerUp }
+  /** `refreshed` when the same power-up was already in effect and its timer restarted. */
+  | { type: 'power-up-collected'; powerUp: SimPowerUp; refreshed: boolean }
+  | { type: 'power-up-expired'; powerUpType: PowerUpType }
+  /** An obstacle the player ran into while shielded; it is destroyed without costing a life. */
+  | { type: 'obstacle-shielded'; obstacle: SimObstacle }
+  /** A destructible obstacle the player broke, costing `penalty` points instead of a life. */
+  | { type: 'obstacle-broken'; obstacle: SimObstacle; penalty: number }
+  /**
+   * A Diwali pickup's effect took hold. `refreshed` when a timed effect was
+   * already in progress and its timer restarted; `livesRestored` is only set by a heal.
+   */
+  | {
+      type: 'pickup-effect-applied';
+      effect: PickupEffect;
+      collectible: SimCollectible;
+      refreshed: boolean;
+      livesRestored: number;
+    }
+  | { type: 'pickup-effect-expired'; effect: TimedPickupEffect }
+  /** An obstacle a pickup effect cleared out of the player's way, without costing a life. */
+  | { type: 'obstacle-cleared'; obstacle: SimObstacle; effect: TimedPickupEffect }
+  | { type: 'despawned'; id: number }
+  | { type: 'game-over' };
+
+/** Salt for the power-up random stream, derived from the run's seed. */
+const POWER_UP_STREAM = 0x9e3779b9;
+/** Salt for the obstacle type random stream, derived from the run's seed. */
+const OBSTACLE_STREAM = 0x85ebca6b;
+/** Salt for the segment picking random stream, derived from the run's seed. */
+const SEGMENT_STREAM = 0xc2b2ae35;
+
+/**
+ * Headless, deterministic simulation of a single run. It owns every rule that
+ * affects the outcome of a run and has no Three.js or DOM dependencies, so the
+ * server can replay a submitted run tick for tick.
+ */
+export class RunSimulation {
+  readonly seed: number;
+  readonly rules: RunRules;
+  readonly player: SimPlayer;
+  obstacles: SimObstacle[] = [];
+  collectibles: SimCollectible[] = [];
+  powerUps: SimPowerUp[] = [];
+  tick = 0;
+  speed: number;
+  lives: number;
+  pickupScore = 0;
+  gameOver = false;
+  distance = 0;
+  obstaclesHit = 0;
+  collected: Record<CollectibleType, number> = { coin: 0, diya: 0, phooljhadi: 0, rangoli: 0 };
+
+  private random: SeededRandom;
+  /** Power-ups draw from their own stream, so they don't shift the layout a seed produces. */
+  private powerUpRandom: SeededRandom;
+  /** Obstacle types likewise, so a seed places obstacles where it always has. */
+  private obstacleRandom: SeededRandom;
+  /** And the segments a run is stitched from. */
+  private segmentRandom: SeededRandom;
+  /** Ticks left on each power-up in effect. Different power-ups run side by side. */
+  private powerUpTicks: Partial<Record<PowerUpType, number>> = {};
+  private powerUpTimer = 0;
+  /** Ticks left on each timed pickup effect in progress, and the rule that started it. */
+  private effects: Partial<Record<TimedPickupEffect, { ticks: number; rule: PickupEffectRule }>> =
+    {};
+  /** Rows of the segment being laid down, and how many of them have spawned. */
+  private segmentRows: SegmentRow[] = [];
+  private nextSegmentRow = 0;
+  private segmentLength = 0;
+  /** How far the track has scrolled since the current segment started. */
+  private segmentDistance = 0;
+  /** Seconds of open track since the current segment ended. */
+  private gapTimer = 0;
+  private spawnInterval: number;
+  private nextEntityId = 1;
+
+  constructor(seed: number, rules: RunRules = DEFAULT_RUN_RULES) {
+    this.seed = seed;
+    this.rules = rules;
+    this.random = new SeededRandom(seed);
+    this.powerUpRandom = new SeededRandom(seed ^ POWER_UP_STREAM);
+    this.obstacleRandom = new SeededRandom(seed ^ OBSTACLE_STREAM);
+    this.segmentRandom = new SeededRandom(seed ^ SEGMENT_STREAM);
+    this.speed = rules.startingSpeed;
+    this.lives = rules.startingLives;
+    this.spawnInterval = rules.spawnInterval;
+    this.player = {
+      x: LANE_POSITIONS[CENTER_LANE]!,
+      y: PLAYER_PHYSICS.groundY,
+      velocityY: 0,
+      lane: CENTER_LANE,
+      isGrounded: true,
+      slideTicks: 0,
+    };
+  }
+
+  get elapsedSeconds(): number {
+    return this.tick * SIMULATION_STEP;
+  }
+
+  get score(): number {
+    const survivalScore = Math.floor(this.elapsedSeconds * this.rules.survivalPointsPerSecond);
+    return survivalScore + this.pickupScore;
+  }
+
+  get summary(): RunSummary {
+    return {
+      distance: Math.floor(this.distance),
+      timeSurvivedMs: Math.round(this.elapsedSeconds * 1000),
+      topSpeed: Math.floor(this.speed),
+      obstaclesHit: this.obstaclesHit,
+      collectibles: { ...this.collected },
+    };
+  }
+
+  /** Power-ups in effect, in a stable order. */
+  get activePowerUps(): ActivePowerUp[] {
+    return POWER_UP_TYPES.filter((type) => this.isPowerUpActive(type)).map((type) => {
+      const { durationSeconds, strength } = this.rules.powerUps[type];
+      return {
+        type,
+        remainingSeconds: this.powerUpTicks[type]! * SIMULATION_STEP,
+        durationSeconds,
+        strength,
+      };
+    });
+  }
+
+  isPowerUpActive(type: PowerUpType): boolean {
+    return (this.powerUpTicks[type] ?? 0) > 0;
+  }
+
+  /** Timed pickup effects in progress, in a stable order. */
+  get activePickupEffects(): ActivePickupEffect[] {
+    return TIMED_PICKUP_EFFECTS.flatMap((effect) => {
+      const active = this.effects[effect];
+      if (!active) return [];
+      const { durationSeconds, radius } = active.rule;
+      return [
+        { effect, remainingSeconds: active.ticks * SIMULATION_STEP, durationSeconds, radius },
+      ];
+    });
+  }
+
+  isEffectActive(effect: TimedPickupEffect): boolean {
+    return this.effects[effect] !== undefined;
+  }
+
+  /** How fast the world scrolls relative to `speed`; faster during a speed burst. */
+  get scrollMultiplier(): number {
+    return this.isEffectActive('speed-trail') ? this.rules.speedTrailMultiplier : 1;
+  }
+
+  /** Applies an input before the next tick. Returns false when it had no effect. */
+  applyInput(action: RunAction): boolean {
+    if (this.gameOver) return false;
+
+    switch (action) {
+      case 'jump':
+        if (!this.player.isGrounded) return false;
+        this.player.velocityY = PLAYER_PHYSICS.jumpForce;
+        this.player.isGrounded = false;
+        // Jumping gets the player straight back up out of a slide
+        this.player.slideTicks = 0;
+        return true;
+      case 'slide':
+        if (!this.player.isGrounded || this.player.slideTicks > 0) return false;
+        this.player.slideTicks = Math.round(PLAYER_PHYSICS.slideDuration / SIMULATION_STEP);
+        return true;
+      case 'left':
+        if (this.player.lane <= 0) return false;
+        this.player.lane--;
+        return true;
+      case 'right':
+        if (this.player.lane >= LANE_POSITIONS.length - 1) return false;
+        this.player.lane++;
+        return true;
+    }
+  }
+
+  /** Advances the run by one fixed tick and returns what happened during it. */
+  step(): RunEvent[] {
+    if (this.gameOver) return [];
+
+    const events: RunEvent[] = [];
+    const dt = SIMULATION_STEP;
+
+    this.updatePlayer(dt);
+    // A speed burst scrolls the world faster, and segments with it
+    const scroll = this.scrollMultiplier;
+    this.distance += this.speed * scroll * dt;
+
+    for (let i = this.obstacles.length - 1; i >= 0; i--) {
+      const obstacle = this.obstacles[i]!;
+      obstacle.z += obstacle.speed * scroll * dt;
+      if (obstacle.velocityX !== 0) this.driftObstacle(obstacle, dt);
+      if (obstacle.z > WORLD.despawnZ) {
+        this.obstacles.splice(i, 1);
+        events.push({ type: 'despawned', id: obstacle.id });
+      }
+    }
+
+    for (let i = this.collectibles.length - 1; i >= 0; i--) {
+      const collectible = this.collectibles[i]!;
+      collectible.z += collectible.speed * scroll * dt;
+      if (collectible.z > WORLD.despawnZ) {
+        this.collectibles.splice(i, 1);
+        events.push({ type: 'despawned', id: collectible.id });
+      }
+    }
+
+    for (let i = this.powerUps.length - 1; i >= 0; i--) {
+      const powerUp = this.powerUps[i]!;
+      powerUp.z += powerUp.speed * scroll * dt;
+      if (powerUp.z > WORLD.despawnZ) {
+        this.powerUps.splice(i, 1);
+        events.push({ type: 'despawned', id: powerUp.id });
+      }
+    }
+
+    this.segmentDistance += this.speed * scroll * dt;
+    this.updateSegments(dt, events);
+
+    // A power-up waits for a lane clear of fresh obstacles rather than being skipped
+    this.powerUpTimer += dt;
+    if (this.powerUpTimer >= this.rules.powerUpInterval && this.spawnPowerUp(events)) {
+      this.powerUpTimer = 0;
+    }
+
+    this.updatePowerUpTimers(events);
+    this.updateEffectTimers(events);
+    this.checkCollisions(events);
+    this.tick++;
+
+    return events;
+  }
+
+  private updatePlayer(dt: number): void {
+    const player = this.player;
+
+    // Lane switching eases toward the target lane and snaps when close
+    const targetX = LANE_POSITIONS[player.lane]!;
+    const dx = targetX - player.x;
+    if (Math.abs(dx) > PLAYER_PHYSICS.laneSnapDistance) {
+      player.x += dx * PLAYER_PHYSICS.laneChangeSpeed * dt;
+    } else {
+      player.x = targetX;
+    }
+
+    if (player.slideTicks > 0) {
+      player.slideTicks--;
+    }
+
+    if (!player.isGrounded) {
+      player.velocityY += PLAYER_PHYSICS.gravity * dt;
+      player.y += player.velocityY * dt;
+
+      if (player.y <= PLAYER_PHYSICS.groundY) {
+        player.y = PLAYER_PHYSICS.groundY;
+        player.velocityY = 0;
+        player.isGrounded = true;
+      }
+    }
+  }
+
+  /**
+   * Lays the current segment down as the track scrolls, then starts the next one
+   * once the gap after it has passed. The gap is timed rather than measured, so a
+   * burst of speed doesn't close it up.
+   */
+  private updateSegments(dt: number, events: RunEvent[]): void {
+    this.spawnDueRows(events);
+    if (
+      this.nextSegmentRow < this.segmentRows.length ||
+      this.segmentDistance < this.segmentLength
+    ) {
+      return;
+    }
+
+    this.gapTimer += dt;
+    if (this.gapTimer >= this.spawnInterval) {
+      this.startSegment();
+      this.spawnDueRows(events);
+    }
+  }
+
+  /** Spawns the current segment's rows the track has scrolled up to. */
+  private spawnDueRows(events: RunEvent[]): void {
+    let row = this.segmentRows[this.nextSegmentRow];
+    while (row && row.offset <= this.segmentDistance) {
+      // A row due partway through the tick has already scrolled a little way in
+      this.spawnRow(row, WORLD.spawnZ + (this.segmentDistance - row.offset), events);
+      row = this.segmentRows[++this.nextSegmentRow];
+    }
+  }
+
+  /** Picks the next segment from those unlocked, by weight, and shortens the gap after it. */
+  private startSegment(): void {
+    const tier = difficultyTierAt(this.elapsedSeconds);
+    const unlocked = this.rules.segments.filter((segment) => segment.tier <= tier);
+    const segment: Segment =
+      unlocked.length > 0
+        ? this.segmentRandom.pickWeighted(unlocked, ({ weight }) => weight)
+        : RANDOM_WAVE_SEGMENT;
+
+    this.segmentRows = segmentRows(segment);
+    this.nextSegmentRow = 0;
+    this.segmentLength = segment.length;
+    this.segmentDistance = 0;
+    this.gapTimer = 0;
+    this.spawnInterval = Math.max(
+      this.rules.minSpawnInterval,
+      this.spawnInterval - this.rules.spawnIntervalDecay
+    );
+  }
+
+  /**
+   * Spawns one row of a segment at `z`. Placements without a lane, and any
+   * random wave, share out the lanes the segment left empty at that offset.
+   */
+  private spawnRow(row: SegmentRow, z: number, events: RunEvent[]): void {
+    const freeLanes = LANE_POSITIONS.map((_, lane) => lane).filter(
+      (lane) =>
+        !row.obstacles.some((placement) => placement.lane === lane) &&
+        !row.collectibles.some((placement) => placement.lane === lane)
+    );
+    const takeLane = (lane?: number): number | undefined =>
+      lane ??
+      (freeLanes.length > 0
+        ? freeLanes.splice(this.random.nextInt(freeLanes.length), 1)[0]
+        : undefined);
+
+    for (const placement of row.obstacles) {
+      const lane = takeLane(placement.lane);
+      if (lane !== undefined) this.spawnObstacle(lane, z, freeLanes, events, placement.type);
+    }
+    for (const placement of row.collectibles) {
+      const lane = takeLane(placement.lane);
+      if (lane !== undefined) this.spawnCollectible(lane, z, placement, events);
+    }
+    if (row.randomWave) this.spawnWave(freeLanes, z, events);
+
+    // Each row of obstacles speeds the run up a little
+    if (row.obstacles.length > 0 || row.randomWave) this.speed += this.rules.speedIncrement;
+  }
+
+  /** The random filler: 1-2 obstacles among `availableLanes`, and maybe collectibles in the rest. */
+  private spawnWave(availableLanes: number[], z: number, events: RunEvent[]): void {
+    // Spawn 1-2 obstacles (fewer for better gameplay)
+    const obstacleCount = this.random.next() < this.rules.singleObstacleChance ? 1 : 2;
+    for (let i = 0; i < obstacleCount && availableLanes.length > 0; i++) {
+      const laneIndex = this.random.nextInt(availableLanes.length);
+      const lane = availableLanes.splice(laneIndex, 1)[0]!;
+      this.spawnObstacle(lane, z, availableLanes, events);
+    }
+
+    // Spawn collectibles in remaining lanes
+    for (const lane of availableLanes) {
+      if (this.random.next() < this.rules.collectibleChance) {
+        this.spawnCollectible(lane, z, {}, events);
+      }
+    }
+  }
+
+  /** Spawns the placed collectible, or a random allowed one when its type is missing or not allowed. */
+  private spawnCollectible(
+    lane: number,
+    z: number,
+    { type }: Pick<CollectiblePlacement, 'type'>,
+    events: RunEvent[]
+  ): void {
+    const { allowedCollectibles } = this.rules;
+    if (allowedCollectibles.length === 0) return;
+
+    const collectible: SimCollectible = {
+      id: this.nextEntityId++,
+      lane,
+      type:
+        type && allowedCollectibles.includes(type) ? type : this.random.pick(allowedCollectibles),
+      x: LANE_POSITIONS[lane]!,
+      y: WORLD.collectibleY,
+      z,
+      speed: this.speed,
+    };
+    this.collectibles.push(collectible);
+    events.push({ type: 'collectible-spawned', collectible });
+  }
+
+  /**
+   * Spawns an obstacle in `lane`, of a weighted random type unless `placedType`
+   * is given. Obstacles spanning two lanes also take a free neighbouring lane out
+   * of `availableLanes`.
+   */
+  private spawnObstacle(
+    lane: number,
+    z: number,
+    availableLanes: number[],
+    events: RunEvent[],
+    placedType?: ObstacleType
+  ): void {
+    const { obstacles } = this.rules;
+    let type =
+      placedType ??
+      this.obstacleRandom.pickWeighted(OBSTACLE_TYPES, (type) => obstacles[type].weight);
+    let x = LANE_POSITIONS[lane]!;
+    let velocityX = 0;
+
+    const { spansLanes, driftSpeed } = obstacles[type];
+    if (spansLanes) {
+      const neighbours = availableLanes.filter((free) => Math.abs(free - lane) === 1);
+      if (neighbours.length > 0) {
+        const neighbour = this.obstacleRandom.pick(neighbours);
+        availableLanes.splice(availableLanes.indexOf(neighbour), 1);
+        x = (x + LANE_POSITIONS[neighbour]!) / 2;
+      } else {
+        // No room beside it, so a plain barrier goes there instead
+        type = 'barrier';
+      }
+    } else if (driftSpeed) {
+      // Drift toward the middle from an outer lane, either way from the middle
+      const direction =
+        lane === 0
+          ? 1
+          : lane === LANE_POSITIONS.length - 1
+            ? -1
+            : this.obstacleRandom.next() < 0.5
+              ? -1
+              : 1;
+      velocityX = direction * driftSpeed;
+    }
+
+    const obstacle: SimObstacle = {
+      id: this.nextEntityId++,
+      lane,
+      type,
+      x,
+      y: obstacles[type].y,
+      z,
+      speed: this.speed,
+      velocityX,
+    };
+    this.obstacles.push(obstacle);
+    events.push({ type: 'obstacle-spawned', obstacle });
+  }
+
+  /** Moves a drifting obstacle sideways, bouncing it back off the outer lanes. */
+  private driftObstacle(obstacle: SimObstacle, dt: number): void {
+    const minX = LANE_POSITIONS[0]!;
+    const maxX = LANE_POSITIONS[LANE_POSITIONS.length - 1]!;
+    obstacle.x += obstacle.velocityX * dt;
+
+    if (obstacle.x <= minX || obstacle.x >= maxX) {
+      obstacle.x = Math.min(maxX, Math.max(minX, obstacle.x));
+      obstacle.velocityX = -obstacle.velocityX;
+    }
+
+    // Its lane is whichever one it is closest to
+    obstacle.lane = LANE_POSITIONS.reduce(
+      (closest, laneX, lane) =>
+        Math.abs(laneX - obstacle.x) < Math.abs(LANE_POSITIONS[closest]! - obstacle.x)
+          ? lane
+          : closest,
+      0
+    );
+  }
+
+  private spawnPowerUp(events: RunEvent[]): boolean {
+    const blockedLanes = new Set(
+      this.obstacles
+        .filter(({ z }) => z - WORLD.spawnZ < WORLD.powerUpClearance)
+        .map(({ lane }) => lane)
+    );
+    const lanes = LANE_POSITIONS.map((_, lane) => lane).filter((lane) => !blockedLanes.has(lane));
+    if (lanes.length === 0) return false;
+
+    const lane = this.powerUpRandom.pick(lanes);
+    const powerUp: SimPowerUp = {
+      id: this.nextEntityId++,
+      lane,
+      type: this.powerUpRandom.pick(POWER_UP_TYPES),
+      x: LANE_POSITIONS[lane]!,
+      y: WORLD.collectibleY,
+      z: WORLD.spawnZ,
+      speed: this.speed,
+    };
+    this.powerUps.push(powerUp);
+    events.push({ type: 'power-up-spawned', powerUp });
+    return true;
+  }
+
+  private updatePowerUpTimers(events: RunEvent[]): void {
+    for (const type of POWER_UP_TYPES) {
+      const ticks = this.powerUpTicks[type];
+      if (ticks === undefined) continue;
+
+      if (ticks <= 1) {
+        delete this.powerUpTicks[type];
+        events.push({ type: 'power-up-expired', powerUpType: type });
+      } else {
+        this.powerUpTicks[type] = ticks - 1;
+      }
+    }
+  }
+
+  private updateEffectTimers(events: RunEvent[]): void {
+    for (const effect of TIMED_PICKUP_EFFECTS) {
+      const active = this.effects[effect];
+      if (!active) continue;
+
+      if (active.ticks <= 1) {
+        delete this.effects[effect];
+        events.push({ type: 'pickup-effect-expired', effect });
+      } else {
+        active.ticks--;
+      }
+    }
+  }
+
+  private checkCollisions(events: RunEvent[]): void {
+    const { powerUps } = this.rules;
+    const shielded = this.isPowerUpActive('shield') && powerUps.shield.strength > 0;
+    // A rangoli clears every obstacle that comes within its radius
+    const clearRadius = this.effects['aoe-protection']?.rule.radius ?? 0;
+    const boosting = this.isEffectActive('speed-trail');
+
+    for (let i = this.obstacles.length - 1; i >= 0; i--) {
+      const obstacle = this.obstacles[i]!;
+      if (this.distanceToPlayer(obstacle) < clearRadius) {
+        this.obstacles.splice(i, 1);
+        events.push({ type: 'obstacle-cleared', obstacle, effect: 'aoe-protection' });
+        continue;
+      }
+
+      if (this.overlapsPlayer(obstacle)) {
+        this.obstacles.splice(i, 1);
+        // A speed burst makes the player invulnerable, bursting through obstacles
+        if (boosting) {
+          events.push({ type: 'obstacle-cleared', obstacle, effect: 'speed-trail' });
+          continue;
+        }
+        if (shielded) {
+          events.push({ type: 'obstacle-shielded', obstacle });
+          continue;
+        }
+
+        // Destructible obstacles break on contact, costing collected points rather than a life
+        const { breakPenalty } = this.rules.obstacles[obstacle.type];
+        if (breakPenalty !== undefined) {
+          const penalty = Math.min(breakPenalty, this.pickupScore);
+          this.pickupScore -= penalty;
+          events.push({ type: 'obstacle-broken', obstacle, penalty });
+          continue;
+        }
+
+        this.lives--;
+        this.obstaclesHit++;
+        events.push({ type: 'obstacle-hit', obstacle });
+
+        if (this.lives <= 0) {
+          this.gameOver = true;
+          events.push({ type: 'game-over' });
+          return;
+        }
+      }
+    }
+
+    // The magnet pulls in collectibles from further away, including neighbouring lanes
+    const collectRadius = this.isPowerUpActive('magnet')
+      ? Math.max(HIT_RADIUS.collectible, powerUps.magnet.strength)
+      : HIT_RADIUS.collectible;
+    const multiplier = this.isPowerUpActive('multiplier') ? powerUps.multiplier.strength : 1;
+
+    for (let i = this.collectibles.length - 1; i >= 0; i--) {
+      const collectible = this.collectibles[i]!;
+      if (this.distanceToPlayer(collectible) < collectRadius) {
+        this.collectibles.splice(i, 1);
+        const value = Math.round(this.rules.collectibleValues[collectible.type] * multiplier);
+        this.pickupScore += value;
+        this.collected[collectible.type]++;
+        events.push({ type: 'collectible-collected', collectible, value });
+        this.applyPickupEffect(collectible, events);
+      }
+    }
+
+    for (let i = this.powerUps.length - 1; i >= 0; i--) {
+      const powerUp = this.powerUps[i]!;
+      if (this.distanceToPlayer(powerUp) < HIT_RADIUS.powerUp) {
+        this.powerUps.splice(i, 1);
+        // Collecting a power-up already in effect restarts its timer rather than adding to it
+        const refreshed = this.isPowerUpActive(powerUp.type);
+        const { durationSeconds } = powerUps[powerUp.type];
+        this.powerUpTicks[powerUp.type] = Math.round(durationSeconds / SIMULATION_STEP);
+        events.push({ type: 'power-up-collected', powerUp, refreshed });
+      }
+    }
+  }
+
+  private applyPickupEffect(collectible: SimCollectible, events: RunEvent[]): void {
+    const rule = this.rules.pickupEffects[collectible.type];
+    if (!rule) return;
+
+    const { effect } = rule;
+    if (!isTimedPickupEffect(effect)) {
+      // A heal restores a life, never past the lives the run started with
+      const livesRestored = this.lives < this.rules.startingLives ? 1 : 0;
+      this.lives += livesRestored;
+      events.push({
+        type: 'pickup-effect-applied',
+        effect,
+        collectible,
+        refreshed: false,
+        livesRestored,
+      });
+      return;
+    }
+
+    // Like power-ups, collecting an effect already in progress restarts its timer
+    const ticks = Math.round(rule.durationSeconds / SIMULATION_STEP);
+    if (ticks <= 0) return;
+    const refreshed = this.isEffectActive(effect);
+    this.effects[effect] = { ticks, rule };
+    events.push({
+      type: 'pickup-effect-applied',
+      effect,
+      collectible,
+      refreshed,
+      livesRestored: 0,
+    });
+  }
+
+  /** Whether the obstacle's hitbox overlaps the player's, which shrinks while sliding. */
+  private overlapsPlayer(obstacle: SimObstacle): boolean {
+    const player = PLAYER_HITBOX[this.player.slideTicks > 0 ? 'sliding' : 'standing'];
+    // The box stays on the ground as it shrinks, so its centre drops
+    const playerY = this.player.y - PLAYER_HITBOX.standing.halfHeight + player.halfHeight;
+    const { hitbox } = this.rules.obstacles[obstacle.type];
+
+    return (
+      Math.abs(obstacle.x - this.player.x) < player.halfWidth + hitbox.halfWidth &&
+      Math.abs(obstacle.y - playerY) < player.halfHeight + hitbox.halfHeight &&
+      Math.abs(obstacle.z) < player.halfDepth + hitbox.halfDepth
+    );
+  }
+
+  private distanceToPlayer(entity: { x: number; y: number; z: number }): number {
+    const dx = entity.x - this.player.x;
+    const dy = entity.y - this.player.y;
+    return Math.sqrt(dx * dx + dy * dy + entity.z * entity.z);
+  }
+}
+
+/**
+ * Plays a recorded run back one tick at a time, applying each input on the tick
+ * it was recorded. Used to verify submitted runs and to drive ghost runners.
+ */
+export class RunReplay {
+  readonly simulation: RunSimulation;
+  private readonly record: RunRecord;
+  private nextInput = 0;
+
+  constructor(record: RunRecord, rules: RunRules = DEFAULT_RUN_RULES) {
+    this.record = record;
+    this.simulation = new RunSimulation(record.seed, rules);
+  }
+
+  /** True at game over or once every recorded tick has been played. */
+  get finished(): boolean {
+    return this.simulation.gameOver || this.simulation.tick >= this.record.ticks;
+  }
+
+  step(): RunEvent[] {
+    if (this.finished) return [];
+
+    const { inputs } = this.record;
+    while (
+      this.nextInput < inputs.length &&
+      inputs[this.nextInput]!.tick === this.simulation.tick
+    ) {
+      this.simulation.applyInput(inputs[this.nextInput]!.action);
+      this.nextInput++;
+    }
+    return this.simulation.step();
+  }
+}
+
+/**
+ * Replays `record` from scratch. Stops at game over or after `record.ticks`
+ * ticks, whichever comes first.
+ */
+export const simulateRun = (
+  record: RunRecord,
+  rules: RunRules = DEFAULT_RUN_RULES
+): RunSimulation => {
+  const replay = new RunReplay(record, rules);
+  while (!replay.finished) {
+    replay.step();
+  }
+  return replay.simulation;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { ObstacleType } from './obstacles';
+import { DEFAULT_RUN_RULES, SIMULATION_STEP } from './rules';
+import { RunSimulation } from './run-simulation';
+import {
+  DIFFICULTY_TIER_SECONDS,
+  DifficultyTier,
+  difficultyTierAt,
+  Segment,
+  SEGMENTS,
+  segmentRows,
+} from './segments';
+
+/** Ticks enough for every difficulty tier to unlock. */
+const TICKS = 90 * 60;
+
+/** What a run with `seed` spawns when the player never moves and never dies. */
+const spawns = (seed: number): string[] => {
+  const simulation = new RunSimulation(seed, { ...DEFAULT_RUN_RULES, startingLives: 1_000 });
+  const spawned: string[] = [];
+  for (let tick = 0; tick < TICKS && !simulation.gameOver; tick++) {
+    for (const event of simulation.step()) {
+      if (event.type === 'obstacle-spawned') {
+        const { lane, type, z } = event.obstacle;
+        spawned.push(`${tick} obstacle ${type} ${lane} ${z.toFixed(3)}`);
+      } else if (event.type === 'collectible-spawned') {
+        const { lane, type, z } = event.collectible;
+        spawned.push(`${tick} collectible ${type} ${lane} ${z.toFixed(3)}`);
+      }
+    }
+  }
+  return spawned;
+};
+
+describe('segmentRows', () => {
+  it('groups every placement into one row per offset, nearest first', () => {
+    for (const segment of SEGMENTS) {
+      const rows = segmentRows(segment);
+      const offsets = rows.map(({ offset }) => offset);
+
+      expect(offsets).toEqual([...new Set(offsets)].sort((a, b) => a - b));
+      expect(rows.flatMap(({ obstacles }) => obstacles)).toHaveLength(segment.obstacles.length);
+      expect(rows.flatMap(({ collectibles }) => collectibles)).toHaveLength(
+        segment.collectibles.length
+      );
+      expect(rows.filter(({ randomWave }) => randomWave)).toHaveLength(
+        new Set(segment.randomWaves).size
+      );
+    }
+  });
+
+  it('returns the same rows every time for the same segment', () => {
+    for (const segment of SEGMENTS) {
+      expect(segmentRows(segment)).toEqual(segmentRows(segment));
+    }
+  });
+});
+
+describe('segment stitching', () => {
+  it('spawns the same track for the same seed', () => {
+    const first = spawns(42);
+    expect(first.length).toBeGreaterThan(0);
+    expect(spawns(42)).toEqual(first);
+  });
+
+  it('spawns a different track for a different seed', () => {
+    expect(spawns(43)).not.toEqual(spawns(42));
+  });
+});
+
+describe('difficulty tiers', () => {
+  it('unlocks each tier at its threshold', () => {
+    expect(difficultyTierAt(0)).toBe(1);
+    expect(difficultyTierAt(DIFFICULTY_TIER_SECONDS[2] - 0.1)).toBe(1);
+    expect(difficultyTierAt(DIFFICULTY_TIER_SECONDS[2])).toBe(2);
+    expect(difficultyTierAt(DIFFICULTY_TIER_SECONDS[3] - 0.1)).toBe(2);
+    expect(difficultyTierAt(DIFFICULTY_TIER_SECONDS[3])).toBe(3);
+  });
+
+  it('only picks segments from tiers unlocked so far', () => {
+    // One segment per tier, each placing a single obstacle of its own type
+    const markers: Record<DifficultyTier, ObstacleType> = { 1: 'barrier', 2: 'toran', 3: 'pit' };
+    const segments: Segment[] = ([1, 2, 3] as const).map((tier) => ({
+      id: `tier-${tier}`,
+      tier,
+      weight: 1,
+      length: 10,
+      obstacles: [{ offset: 0, lane: 1, type: markers[tier] }],
+      collectibles: [],
+    }));
+    const simulation = new RunSimulation(42, {
+      ...DEFAULT_RUN_RULES,
+      segments,
+      startingLives: 1_000,
+    });
+
+    const seen: Record<DifficultyTier, Set<ObstacleType>> = {
+      1: new Set(),
+      2: new Set(),
+      3: new Set(),
+    };
+    const endTick = Math.ceil((DIFFICULTY_TIER_SECONDS[3] + 30) / SIMULATION_STEP);
+    while (simulation.tick < endTick && !simulation.gameOver) {
+      const tier = difficultyTierAt(simulation.elapsedSeconds);
+      for (const event of simulation.step()) {
+        if (event.type === 'obstacle-spawned') seen[tier].add(event.obstacle.type);
+      }
+    }
+
+    expect(simulation.gameOver).toBe(false);
+    expect([...seen[1]]).toEqual(['barrier']);
+    expect([...seen[2]].sort()).toEqual(['barrier', 'toran']);
+    expect([...seen[3]].sort()).toEqual(['barrier', 'pit', 'toran']);
+  });
+});
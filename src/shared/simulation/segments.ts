@@ -0,0 +1,237 @@
+// Authored track segments. A run is stitched together from short segments,
+// each a hand-placed arrangement of obstacles and collectibles, picked by
+// difficulty tier and weight. Random placement only fills in where a segment
+// leaves a lane, a type or a whole wave open.
+
+import type { ObstacleType } from './obstacles';
+import type { CollectibleType } from './rules';
+
+/** Segments unlock in tiers as a run goes on; later tiers are harder. */
+export type DifficultyTier = 1 | 2 | 3;
+
+/** Seconds into a run at which each tier unlocks. */
+export const DIFFICULTY_TIER_SECONDS: Readonly<Record<DifficultyTier, number>> = {
+  1: 0,
+  2: 30,
+  3: 75,
+};
+
+/** Highest tier unlocked `seconds` into a run. */
+export const difficultyTierAt = (seconds: number): DifficultyTier =>
+  seconds >= DIFFICULTY_TIER_SECONDS[3] ? 3 : seconds >= DIFFICULTY_TIER_SECONDS[2] ? 2 : 1;
+
+export interface ObstaclePlacement {
+  /** World units from the start of the segment. */
+  offset: number;
+  /** Left out for any lane that is still free at this offset. */
+  lane?: number;
+  /** Left out for a random type, by the obstacle weights. */
+  type?: ObstacleType;
+}
+
+export interface CollectiblePlacement {
+  /** World units from the start of the segment. */
+  offset: number;
+  /** Left out for any lane that is still free at this offset. */
+  lane?: number;
+  /** Left out, or not allowed on the post, for any allowed collectible. */
+  type?: CollectibleType;
+}
+
+export interface Segment {
+  id: string;
+  /** Earliest tier the segment can be picked in. */
+  tier: DifficultyTier;
+  /** Chance of this segment relative to the others unlocked. */
+  weight: number;
+  /** World units the segment covers before the gap to the next one. */
+  length: number;
+  obstacles: readonly ObstaclePlacement[];
+  collectibles: readonly CollectiblePlacement[];
+  /** Offsets of random waves: 1-2 obstacles, with collectibles in the free lanes. */
+  randomWaves?: readonly number[];
+}
+
+/** A line of collectibles down one lane, `spacing` apart. */
+const trail = (
+  lane: number,
+  from: number,
+  count: number,
+  type?: CollectibleType,
+  spacing = 4
+): CollectiblePlacement[] =>
+  Array.from({ length: count }, (_, i) => ({
+    offset: from + i * spacing,
+    lane,
+    ...(type && { type }),
+  }));
+
+// Every row leaves the player a way through: an open lane, or one they can
+// jump or slide past.
+export const SEGMENTS: readonly Segment[] = [
+  {
+    id: 'open-road',
+    tier: 1,
+    weight: 2,
+    length: 40,
+    obstacles: [],
+    collectibles: [],
+    randomWaves: [0, 20],
+  },
+  {
+    id: 'coin-lane',
+    tier: 1,
+    weight: 3,
+    length: 36,
+    obstacles: [
+      { offset: 0, lane: 0 },
+      { offset: 18, lane: 2 },
+    ],
+    collectibles: trail(1, 0, 8, 'coin'),
+  },
+  {
+    id: 'diya-weave',
+    tier: 1,
+    weight: 2,
+    length: 40,
+    obstacles: [
+      { offset: 0, lane: 1, type: 'barrier' },
+      { offset: 20, lane: 0, type: 'barrier' },
+      { offset: 20, lane: 2, type: 'barrier' },
+    ],
+    collectibles: [...trail(0, 0, 3, 'diya'), ...trail(2, 0, 3, 'diya'), ...trail(1, 20, 3)],
+  },
+  {
+    id: 'cone-alley',
+    tier: 2,
+    weight: 2,
+    length: 44,
+    obstacles: [0, 14, 28].flatMap((offset) => [
+      { offset, lane: 0, type: 'cone' as const },
+      { offset, lane: 2, type: 'cone' as const },
+    ]),
+    collectibles: trail(1, 0, 9, 'phooljhadi', 4),
+  },
+  {
+    id: 'toran-gate',
+    tier: 2,
+    weight: 2,
+    length: 40,
+    obstacles: [
+      { offset: 0, lane: 0, type: 'toran' },
+      { offset: 0, lane: 1, type: 'toran' },
+      { offset: 0, lane: 2, type: 'barrier' },
+      { offset: 22, lane: 1 },
+    ],
+    collectibles: [{ offset: 0, lane: 1, type: 'rangoli' }, ...trail(0, 10, 4, 'coin')],
+  },
+  {
+    id: 'pit-crossing',
+    tier: 2,
+    weight: 1,
+    length: 40,
+    obstacles: [
+      { offset: 0, lane: 0, type: 'pit' },
+      { offset: 20, lane: 2, type: 'pit' },
+    ],
+    collectibles: [...trail(2, 0, 4), ...trail(0, 20, 4)],
+  },
+  {
+    id: 'mixed-bag',
+    tier: 2,
+    weight: 2,
+    length: 48,
+    obstacles: [{ offset: 0 }, { offset: 24 }],
+    collectibles: [{ offset: 12 }, { offset: 12 }, { offset: 36 }],
+    randomWaves: [12, 36],
+  },
+  {
+    id: 'truck-crossing',
+    tier: 3,
+    weight: 2,
+    length: 44,
+    obstacles: [
+      { offset: 0, lane: 0, type: 'truck' },
+      { offset: 26, lane: 1, type: 'cone' },
+    ],
+    collectibles: trail(2, 8, 4, 'diya'),
+    randomWaves: [26],
+  },
+  {
+    id: 'slalom',
+    tier: 3,
+    weight: 2,
+    length: 48,
+    obstacles: [
+      { offset: 0, lane: 0, type: 'barrier' },
+      { offset: 0, lane: 1, type: 'barrier' },
+      { offset: 14, lane: 1, type: 'toran' },
+      { offset: 14, lane: 2, type: 'barrier' },
+      { offset: 28, lane: 0, type: 'barrier' },
+      { offset: 28, lane: 1, type: 'barrier' },
+    ],
+    collectibles: [...trail(2, 0, 3, 'coin'), ...trail(0, 14, 3, 'coin'), ...trail(2, 28, 3)],
+  },
+  {
+    id: 'gauntlet',
+    tier: 3,
+    weight: 1,
+    length: 52,
+    obstacles: [
+      { offset: 0, lane: 1, type: 'pit' },
+      { offset: 16, lane: 0, type: 'toran' },
+      { offset: 16, lane: 1, type: 'toran' },
+      { offset: 16, lane: 2, type: 'toran' },
+      { offset: 32, lane: 1, type: 'truck' },
+    ],
+    collectibles: [{ offset: 16, lane: 1, type: 'rangoli' }, ...trail(0, 40, 3)],
+  },
+];
+
+/** Stands in when no authored segment is unlocked: a single random wave. */
+export const RANDOM_WAVE_SEGMENT: Segment = {
+  id: 'random-wave',
+  tier: 1,
+  weight: 1,
+  length: 0,
+  obstacles: [],
+  collectibles: [],
+  randomWaves: [0],
+};
+
+/** Everything a segment places at one offset, spawned together. */
+export interface SegmentRow {
+  offset: number;
+  obstacles: ObstaclePlacement[];
+  collectibles: CollectiblePlacement[];
+  randomWave: boolean;
+}
+
+/** A segment's placements grouped by offset, nearest first. */
+export const segmentRows = (segment: Segment): SegmentRow[] => {
+  const rows = new Map<number, SegmentRow>();
+  const rowAt = (offset: number): SegmentRow => {
+    let row = rows.get(offset);
+    if (!row) {
+      row = { offset, obstacles: [], collectibles: [], randomWave: false };
+      rows.set(offset, row);
+    }
+    return row;
+  };
+
+  segment.obstacles.forEach((placement) => rowAt(placement.offset).obstacles.push(placement));
+  segment.collectibles.forEach((placement) => rowAt(placement.offset).collectibles.push(placement));
+  segment.randomWaves?.forEach((offset) => {
+    rowAt(offset).randomWave = true;
+  });
+  return [...rows.values()].sort((a, b) => a.offset - b.offset);
+};
+
+/** The most collectibles any one segment can spawn, counting its random waves. */
+export const maxSegmentCollectibles = (segments: readonly Segment[], lanes: number): number =>
+  Math.max(
+    0,
+    ...segments.map(
+      ({ collectibles, randomWaves = [] }) => collectibles.length + randomWaves.length * (lanes - 1)
+    )
+  );
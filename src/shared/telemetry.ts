@@ -0,0 +1,20 @@
+import { DeviceProfile } from './types/api';
+
+// Run telemetry is bucketed into fixed slices of run time, so the client and the
+// server agree on what each bucket of the lane heatmap and run length chart means.
+
+/** Length of one run segment in the lane heatmap and one bar of the run length chart. */
+export const TELEMETRY_SEGMENT_SECONDS = 15;
+
+/** Segments tracked per run; anything later is folded into the last one. */
+export const TELEMETRY_MAX_SEGMENTS = 40;
+
+/** Performance profiles `ProfileManager` picks from, lowest first. */
+export const DEVICE_PROFILES: readonly DeviceProfile[] = ['low-end', 'mid-range', 'high-end'];
+
+export const isDeviceProfile = (value: unknown): value is DeviceProfile =>
+  typeof value === 'string' && (DEVICE_PROFILES as readonly string[]).includes(value);
+
+/** Segment of the run that `elapsedMs` falls into. */
+export const telemetrySegment = (elapsedMs: number): number =>
+  Math.min(TELEMETRY_MAX_SEGMENTS - 1, Math.floor(elapsedMs / (TELEMETRY_SEGMENT_SECONDS * 1000)));
@@ -0,0 +1,27 @@
+import { CollectibleType } from '../simulation/rules';
+
+/** Values a single run is measured by, taken from its `RunSummary`. */
+export type RunAchievementStat = 'distance' | 'timeSurvivedMs' | 'topSpeed' | CollectibleType;
+
+/** Values accumulated across every run, taken from the player's `PlayerStats`. */
+export type LifetimeAchievementStat =
+  | 'runsPlayed'
+  | 'totalDistance'
+  | 'totalTimeSurvivedMs'
+  | CollectibleType;
+
+/**
+ * What has to happen to unlock an achievement: `run` goals must be met within one
+ * run, `lifetime` goals by the player's totals.
+ */
+export type AchievementGoal =
+  | { scope: 'run'; stat: RunAchievementStat; target: number }
+  | { scope: 'lifetime'; stat: LifetimeAchievementStat; target: number };
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  goal: AchievementGoal;
+}
@@ -1,16 +1,47 @@
+import { CollectibleType } from '../simulation/rules';
+import { RunRecord, RunSummary } from '../simulation/run-simulation';
+import { GamePostData, TournamentConfig } from './post';
+
 export interface HealthResponse {
   status: string;
   timestamp: string;
   game: string;
 }
 
+export interface ErrorResponse {
+  status: 'error';
+  message: string;
+}
+
 export interface ScoreResponse {
   highScore: number;
   userId?: string;
 }
 
+export interface StartRunRequest {
+  /** Plays this incoming challenge, on its seed, instead of a regular run. */
+  challengeId?: string;
+}
+
+/** A run the server has allowed to start; its token must accompany the score. */
+export interface RunSessionResponse {
+  /** Signed, single-use token for submitting this run's score. */
+  token: string;
+  /** Seed the run must be played with. */
+  seed: number;
+  startedAt: number;
+  /** Gameplay settings the run must be played with; its score is verified under them. */
+  gameplay: GameplaySettings;
+}
+
 export interface SaveScoreRequest {
+  /** Token from the run session this score was played in. */
+  sessionToken: string;
   score: number;
+  /** Seed and input log the server re-simulates to verify `score`. */
+  run: RunRecord;
+  /** What the run achieved; must match the server's replay of `run`. */
+  summary: RunSummary;
 }
 
 export interface SaveScoreResponse {
@@ -18,4 +49,232 @@ export interface SaveScoreResponse {
   score: number;
   highScore?: number;
   previousHighScore?: number;
-}
\ No newline at end of file
+  /** Achievements this run unlocked, confirmed by replaying it. */
+  achievements?: UnlockedAchievement[];
+  /** The challenge this run settled, if it was played as one. */
+  challenge?: Challenge;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  score: number;
+}
+
+export interface LeaderboardResponse {
+  postId: string;
+  entries: LeaderboardEntry[];
+  totalPlayers: number;
+}
+
+export interface PlayerRankResponse {
+  postId: string;
+  username: string;
+  rank?: number;
+  score?: number;
+  totalPlayers: number;
+}
+
+export interface LeaderboardNeighborsResponse {
+  postId: string;
+  username: string;
+  rank?: number;
+  above: LeaderboardEntry[];
+  below: LeaderboardEntry[];
+}
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+
+export interface SubredditLeaderboardResponse {
+  window: LeaderboardWindow;
+  periodId: string;
+  entries: LeaderboardEntry[];
+  totalPlayers: number;
+}
+
+export interface ArchivedLeaderboardPeriod {
+  periodId: string;
+  archivedAt: number;
+}
+
+export interface LeaderboardArchiveResponse {
+  window: LeaderboardWindow;
+  periods: ArchivedLeaderboardPeriod[];
+}
+
+/** Install-wide gameplay tuning from the app settings, the base for every post's rules. */
+export interface GameplaySettings {
+  baseSpeed: number;
+  /** Speed added after every spawn wave. */
+  speedRamp: number;
+  /** Seconds between spawn waves once the run has sped up fully. */
+  minSpawnInterval: number;
+  lives: number;
+  collectibleValues: Record<CollectibleType, number>;
+  /** Collectible types that can spawn on any post. */
+  enabledCollectibles: CollectibleType[];
+}
+
+export interface PostConfigResponse {
+  postId: string;
+  postData: GamePostData;
+  gameplay: GameplaySettings;
+}
+
+export interface PlayerStats {
+  runsPlayed: number;
+  totalDistance: number;
+  totalTimeSurvivedMs: number;
+  obstaclesHit: number;
+  collectibles: Record<CollectibleType, number>;
+}
+
+export interface PlayerStatsResponse {
+  userId: string;
+  stats: PlayerStats;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  unlockedAt: number;
+}
+
+export interface AchievementsResponse {
+  userId: string;
+  /** Oldest unlock first. */
+  unlocked: UnlockedAchievement[];
+}
+
+/** A player's best run on a post, replayed as a ghost on their next runs there. */
+export interface GhostRun {
+  score: number;
+  run: RunRecord;
+  /**
+   * Gameplay settings the run was played with, so it replays the same after they
+   * change. Unset on ghosts saved before they were recorded.
+   */
+  gameplay?: GameplaySettings;
+}
+
+export interface GhostRunResponse {
+  postId: string;
+  /** Unset until the player has finished a run on this post. */
+  ghost?: GhostRun;
+}
+
+/** Per-player preferences, changed from the game's settings screen. */
+export interface PlayerSettings {
+  /** Comment a score card on the post when a new personal best takes #1 there. */
+  scoreCardComments: boolean;
+}
+
+export interface PlayerSettingsResponse {
+  userId: string;
+  settings: PlayerSettings;
+}
+
+export type UpdatePlayerSettingsRequest = Partial<PlayerSettings>;
+
+/** Outcome of a challenge, stored once the challenged player has played it. */
+export interface ChallengeResult {
+  score: number;
+  /** Username of the winner; the challenger keeps a tie. */
+  winner: string;
+  completedAt: number;
+}
+
+/** One player daring another to beat their score on the same seed of a post. */
+export interface Challenge {
+  id: string;
+  postId: string;
+  /** Usernames, without the leading u/. */
+  challenger: string;
+  opponent: string;
+  seed: number;
+  targetScore: number;
+  createdAt: number;
+  /** Unset while the challenge is still open. */
+  result?: ChallengeResult;
+}
+
+export interface CreateChallengeRequest {
+  /** Redditor to challenge with the player's last run on this post. */
+  username: string;
+}
+
+export interface ChallengeResponse {
+  challenge: Challenge;
+}
+
+export interface ChallengesResponse {
+  postId: string;
+  /** Open challenges sent to the player on this post, oldest first. */
+  incoming: Challenge[];
+}
+
+export type TournamentStatus = 'upcoming' | 'open' | 'closed';
+
+/** Final standings, published once a tournament has closed. */
+export interface TournamentResults {
+  closedAt: number;
+  standings: LeaderboardEntry[];
+  totalPlayers: number;
+}
+
+export interface TournamentResponse {
+  postId: string;
+  tournament: TournamentConfig;
+  status: TournamentStatus;
+  /** 1-based round being played, for open tournaments with a seed per round. */
+  round?: number;
+  /** Runs the player has started; unset for logged-out players. */
+  attemptsUsed?: number;
+  entries: LeaderboardEntry[];
+  totalPlayers: number;
+  /** Unset until the standings have been published. */
+  results?: TournamentResults;
+}
+
+/** Performance profile the client picked for the device. */
+export type DeviceProfile = 'low-end' | 'mid-range' | 'high-end';
+
+/** Anonymous facts about one finished run, collected to tune difficulty. */
+export interface RunTelemetry {
+  runLengthMs: number;
+  /** The obstacle hit that ended the run: its lane and the speed it came at. */
+  death: { lane: number; speed: number };
+  pickups: Record<CollectibleType, number>;
+  /** Ticks spent in each lane, left to right, for every telemetry segment of the run. */
+  laneTicks: number[][];
+  deviceProfile: DeviceProfile;
+}
+
+export interface RecordTelemetryRequest {
+  /** Token from the run session the telemetry was collected in. */
+  sessionToken: string;
+  telemetry: RunTelemetry;
+}
+
+export interface RecordTelemetryResponse {
+  recorded: boolean;
+}
+
+/** Telemetry of every run so far, added up. */
+export interface RunAnalytics {
+  runs: number;
+  totalRunMs: number;
+  /** Runs per telemetry segment of length they ended in. */
+  runLengths: number[];
+  /** Deaths per lane, left to right. */
+  deathsByLane: number[];
+  /** Deaths per obstacle speed, rounded down. */
+  deathsBySpeed: Record<string, number>;
+  pickups: Record<CollectibleType, number>;
+  /** Ticks spent in each lane per telemetry segment: `laneHeatmap[segment][lane]`. */
+  laneHeatmap: number[][];
+  devices: Record<DeviceProfile, number>;
+}
+
+export interface AnalyticsResponse {
+  analytics: RunAnalytics;
+}
@@ -0,0 +1,42 @@
+import { CollectibleType } from '../simulation/rules';
+
+/**
+ * `endless` posts give every run a fresh seed; `daily` posts share one seed for the day;
+ * `tournament` posts only accept a limited number of runs per player during a set window.
+ */
+export type GameMode = 'endless' | 'daily' | 'tournament';
+
+export type GameTheme = 'diwali-night';
+
+/**
+ * Schedule and rules of a moderator-run tournament. Times are epoch milliseconds.
+ * A type rather than an interface so post data stays assignable to Devvit's JSON types.
+ */
+export type TournamentConfig = {
+  /** Random id the per-round seeds are derived from. */
+  id: string;
+  startsAt: number;
+  endsAt: number;
+  attemptsPerUser: number;
+  /** Length of a round when every round gets its own seed. Unset when the post has one seed. */
+  roundMs?: number;
+};
+
+/** Game configuration stored on each post when it is created. */
+export interface GamePostData {
+  mode: GameMode;
+  theme: GameTheme;
+  // Tuning below is set on tuned posts only; other posts follow the install's gameplay settings
+  startingSpeed?: number;
+  lives?: number;
+  /** Seconds between spawn waves at the start of a run. */
+  spawnInterval?: number;
+  /** Pickup types that can spawn on this post, of those the install enables. */
+  allowedPickups?: CollectibleType[];
+  /** Seed every run on this post must use. Unset for endless posts. */
+  seed?: number;
+  /** UTC date (YYYY-MM-DD) a daily challenge post was created for. */
+  challengeDate?: string;
+  /** Set on tournament posts only. */
+  tournament?: TournamentConfig;
+}
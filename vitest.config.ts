@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Tests run against the in-memory Devvit stand-ins the offline build uses
+    alias: [
+      {
+        find: /^@devvit\/web\/server$/,
+        replacement: fileURLToPath(new URL('./src/server/local/devvit-server.ts', import.meta.url)),
+      },
+    ],
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});